@@ -0,0 +1,113 @@
+"use client";
+
+import { useLiveQuery } from "dexie-react-hooks";
+import { BarChart3 } from "lucide-react";
+import { PageHeader, PageShell } from '@/components/page-shell';
+import { BarList, ColumnChart } from '@/components/charts';
+import { getAnalytics, type Breakdown } from '@/lib/analytics';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export default function AnalyticsPage() {
+  const analytics = useLiveQuery(() => getAnalytics(), []);
+
+  if (!analytics) return <PageShell><PageHeader title="Analytics" description="" /></PageShell>;
+
+  if (analytics.total === 0) {
+    return (
+      <PageShell>
+        <PageHeader title="Analytics" description="How your job search is going" />
+        <div className="glass-effect rounded-xl p-12 shadow-lg text-center text-slate-500">
+          <BarChart3 className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+          <p className="text-lg font-medium">No applications yet</p>
+          <p className="text-sm mt-1">Charts appear once you start tracking applications</p>
+        </div>
+      </PageShell>
+    );
+  }
+
+  return (
+    <PageShell>
+      <PageHeader title="Analytics" description="How your job search is going" />
+
+      {/* Headline numbers */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        {[
+          { label: "Applications", value: String(analytics.total) },
+          { label: "Response Rate", value: percent(analytics.responseRate) },
+          {
+            label: "Median Time to Response",
+            value: analytics.medianDaysToResponse === null ? "–" : `${analytics.medianDaysToResponse} days`,
+          },
+        ].map((stat, idx) => (
+          <div
+            key={stat.label}
+            className={`glass-effect rounded-xl p-6 shadow-sm animate-slide-up stagger-${idx + 1}`}
+          >
+            <p className="text-3xl font-bold text-slate-900 mb-2">{stat.value}</p>
+            <p className="text-sm text-slate-600 font-medium">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div className="glass-effect rounded-xl p-6 shadow-lg animate-slide-up stagger-1">
+          <h2 className="text-lg font-semibold text-slate-900 mb-4">Funnel</h2>
+          <BarList
+            data={analytics.funnel.map(stage => ({
+              label: `${stage.stage} · ${percent(stage.rate)}`,
+              value: stage.count,
+            }))}
+            max={analytics.total}
+          />
+        </div>
+
+        <div className="glass-effect rounded-xl p-6 shadow-lg animate-slide-up stagger-2">
+          <h2 className="text-lg font-semibold text-slate-900 mb-1">Applications per Week</h2>
+          <p className="text-xs text-slate-500 mb-4">Last {analytics.perWeek.length} weeks</p>
+          <ColumnChart
+            data={analytics.perWeek.map(({ week, count }) => ({
+              label: new Date(week).toLocaleDateString(undefined, { timeZone: "UTC" }),
+              value: count,
+              title: `Week of ${new Date(week).toLocaleDateString(undefined, { timeZone: "UTC" })}: ${count}`,
+            }))}
+          />
+        </div>
+
+        <div className="glass-effect rounded-xl p-6 shadow-lg animate-slide-up stagger-3">
+          <h2 className="text-lg font-semibold text-slate-900 mb-1">Rejections by Stage</h2>
+          <p className="text-xs text-slate-500 mb-4">Share of applications reaching a stage that were rejected there</p>
+          <BarList
+            data={analytics.rejections.map(({ stage, reached, rejected, rate }) => ({
+              label: stage,
+              value: rate,
+              title: `${rejected} of ${reached} rejected`,
+            }))}
+            max={1}
+            format={percent}
+            color="bg-red-400"
+          />
+        </div>
+
+        <BreakdownCard title="By Source" rows={analytics.bySource} />
+        <BreakdownCard title="By Company" rows={analytics.byCompany} />
+        <BreakdownCard title="By Location" rows={analytics.byLocation} />
+      </div>
+    </PageShell>
+  );
+}
+
+function BreakdownCard({ title, rows }: { title: string; rows: Breakdown[] }) {
+  return (
+    <div className="glass-effect rounded-xl p-6 shadow-lg animate-slide-up stagger-3">
+      <h2 className="text-lg font-semibold text-slate-900 mb-1">{title}</h2>
+      <p className="text-xs text-slate-500 mb-4">Top {rows.length}, with responses and offers</p>
+      <BarList
+        data={rows.map(row => ({
+          label: `${row.label} · ${row.responses} responses, ${row.offers} offers`,
+          value: row.applications,
+        }))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Upload, AlertCircle, CheckCircle2, Loader2, CalendarDays } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PageHeader, PageShell } from '@/components/page-shell';
+import {
+  backupFilename,
+  createBackup,
+  importBackup,
+  parseBackup,
+  previewImport,
+  type Backup,
+  type ImportMode,
+  type ImportPreview,
+} from '@/lib/backup';
+import { downloadFile } from '@/lib/download';
+import { buildCoolOffCalendar, DEFAULT_FOLLOW_UP_DAYS } from '@/lib/ical';
+
+export default function BackupPage() {
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [status, setStatus] = useState<'idle' | 'importing' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+  const [includeFollowUps, setIncludeFollowUps] = useState(false);
+  const [followUpDays, setFollowUpDays] = useState(DEFAULT_FOLLOW_UP_DAYS);
+
+  const handleExport = async () => {
+    try {
+      const data = await createBackup();
+      downloadFile(backupFilename(data), JSON.stringify(data, null, 2), "application/json");
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      alert('Failed to export backup');
+    }
+  };
+
+  const handleCalendarExport = async () => {
+    try {
+      const calendar = await buildCoolOffCalendar({ includeFollowUps, followUpDays });
+      downloadFile("job-applications.ics", calendar, "text/calendar");
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      alert('Failed to export calendar');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setBackup(null);
+    setPreview(null);
+    setStatus('idle');
+    if (!file) return;
+
+    try {
+      const parsed = parseBackup(await file.text());
+      setBackup(parsed);
+      setPreview(await previewImport(parsed));
+    } catch (error) {
+      setStatus('error');
+      setMessage(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!backup) return;
+
+    if (mode === "replace" && !confirm("This deletes everything currently stored, the trash included, and replaces it with the backup. Continue?")) {
+      return;
+    }
+
+    setStatus('importing');
+    try {
+      await importBackup(backup, mode);
+      setStatus('success');
+      setMessage(`Imported ${backup.data.applications.length} applications (${mode})`);
+      setBackup(null);
+      setPreview(null);
+    } catch (error) {
+      setStatus('error');
+      setMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.error('Import error:', error);
+    }
+  };
+
+  return (
+    <PageShell>
+      <PageHeader
+        title="Backup & Export"
+        description="Export everything to a JSON file, restore from one, or send cool-offs to your calendar"
+      />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Export */}
+        <div className="glass-effect rounded-xl p-6 shadow-lg animate-slide-up stagger-1">
+          <h2 className="text-2xl font-bold text-slate-900 mb-2">Export</h2>
+          <p className="text-sm text-slate-600 mb-6">
+            Downloads every application with its status history, interview rounds, notes and attachments, plus your companies, contacts, cool-off policies and pipeline stages.
+          </p>
+          <Button onClick={handleExport}>
+            <Download className="w-4 h-4 mr-2" />
+            Download Backup
+          </Button>
+        </div>
+
+        {/* Calendar */}
+        <div className="glass-effect rounded-xl p-6 shadow-lg animate-slide-up stagger-2">
+          <h2 className="text-2xl font-bold text-slate-900 mb-2">Calendar</h2>
+          <p className="text-sm text-slate-600 mb-6">
+            An .ics file with an all-day event on the day each running cool-off ends.
+            Importing a newer file updates the events instead of duplicating them.
+          </p>
+          <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={includeFollowUps}
+                onChange={(e) => setIncludeFollowUps(e.target.checked)}
+              />
+              Add follow-up reminders for open applications
+            </label>
+            {includeFollowUps && (
+              <div>
+                <Label htmlFor="followUpDays">Days without an update</Label>
+                <Input
+                  id="followUpDays"
+                  type="number"
+                  min={1}
+                  value={followUpDays}
+                  onChange={(e) => setFollowUpDays(Math.max(1, Number(e.target.value)))}
+                  className="mt-1 w-32"
+                />
+              </div>
+            )}
+            <Button onClick={handleCalendarExport}>
+              <CalendarDays className="w-4 h-4 mr-2" />
+              Download Calendar
+            </Button>
+          </div>
+        </div>
+
+        {/* Import */}
+        <div className="glass-effect rounded-xl p-6 shadow-lg lg:col-span-2 animate-slide-up stagger-3">
+          <h2 className="text-2xl font-bold text-slate-900 mb-2">Import</h2>
+          <p className="text-sm text-slate-600 mb-6">
+            Merging matches applications on company, job title and location.
+          </p>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="backupFile">Backup File</Label>
+              <Input
+                id="backupFile"
+                type="file"
+                accept="application/json,.json"
+                onChange={handleFileChange}
+                className="mt-1"
+              />
+            </div>
+
+            {preview && backup && (
+              <>
+                <div className="rounded-lg bg-slate-50 border border-slate-200 p-4 text-sm space-y-3">
+                  <p className="text-slate-600">
+                    Exported {backup.exportedAt ? new Date(backup.exportedAt).toLocaleString() : "at an unknown time"}
+                    {" · "}{backup.data.applications.length} applications, {backup.data.coolOffPolicies.length} policies
+                  </p>
+                  {mode === "merge" ? (
+                    <>
+                      <ul className="space-y-1 text-slate-700">
+                        <li><span className="font-semibold">{preview.added.length}</span> new applications</li>
+                        <li><span className="font-semibold">{preview.changed.length}</span> applications updated</li>
+                        <li><span className="font-semibold">{preview.unchanged}</span> applications unchanged</li>
+                        <li><span className="font-semibold">{preview.policiesAdded}</span> new policies, <span className="font-semibold">{preview.policiesChanged}</span> updated</li>
+                      </ul>
+                      {preview.changed.length > 0 && (
+                        <div className="max-h-48 overflow-y-auto border-t border-slate-200 pt-3 space-y-2">
+                          {preview.changed.map(change => (
+                            <div key={change.existing.id}>
+                              <p className="font-medium text-slate-900">
+                                {change.existing.company} – {change.existing.jobTitle}
+                              </p>
+                              {change.fields.map(field => (
+                                <p key={field} className="text-xs text-slate-600 font-mono">
+                                  {field}: {String(change.existing[field])} → {String(change.incoming[field])}
+                                </p>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-red-700">
+                      Replaces {preview.current.applications} applications and {preview.current.coolOffPolicies} policies
+                      currently stored with the backup&apos;s contents.
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="importMode">Mode</Label>
+                  <Select value={mode} onValueChange={(value: ImportMode) => setMode(value)}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="merge">Merge into existing data</SelectItem>
+                      <SelectItem value="replace">Replace everything</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <Button
+                  onClick={handleImport}
+                  disabled={status === 'importing'}
+                  variant={mode === "replace" ? "destructive" : "default"}
+                >
+                  {status === 'importing'
+                    ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    : <Upload className="w-4 h-4 mr-2" />}
+                  Import
+                </Button>
+              </>
+            )}
+
+            {status === 'success' && (
+              <div className="flex items-center text-sm text-green-700">
+                <CheckCircle2 className="w-4 h-4 mr-2" />
+                {message}
+              </div>
+            )}
+
+            {status === 'error' && (
+              <div className="flex items-center text-sm text-red-700">
+                <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                {message}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </PageShell>
+  );
+}
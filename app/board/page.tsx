@@ -0,0 +1,176 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Building2, BriefcaseBusinessIcon, MapPin } from "lucide-react";
+import { PageHeader, PageShell } from '@/components/page-shell';
+import { ApplicationDetailDialog } from '@/components/application-detail-dialog';
+import { showUndo } from '@/components/undo-toast';
+import { type ApplicationStatus, type JobApplication } from '@/lib/db';
+import { changeApplicationStatus, listApplicationsByStatus, revertStatusChanges } from '@/lib/applications';
+import { getDaysRemaining } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+
+export default function BoardPage() {
+  const columns = useLiveQuery(listApplicationsByStatus, [], []);
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null);
+  const [viewingApp, setViewingApp] = useState<JobApplication | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  // The card moved from the keyboard gets focus back once, when it shows up
+  // in its new column, and is forgotten after that
+  const pendingFocus = useRef<{ id: number; status: ApplicationStatus } | null>(null);
+  useEffect(() => {
+    const pending = pendingFocus.current;
+    const column = columns.find(column => column.status === pending?.status);
+    if (!pending || !column?.applications.some(app => app.id === pending.id)) return;
+
+    pendingFocus.current = null;
+    document.getElementById(`card-${pending.id}`)?.focus();
+  }, [columns]);
+
+  // Same path as the table's status select, so moving into a cool-off
+  // trigger stage restarts the cool-off where the company's policy says it should
+  const moveTo = async (app: JobApplication, status: ApplicationStatus) => {
+    try {
+      const change = await changeApplicationStatus(app.id!, status);
+      if (change) {
+        setAnnouncement(`Moved ${app.company} to ${status}`);
+        showUndo(`Moved ${app.company} to ${status}`, () => revertStatusChanges([change]));
+      } else {
+        pendingFocus.current = null;
+      }
+    } catch (error) {
+      console.error('Error updating status:', error);
+      pendingFocus.current = null;
+    }
+  };
+
+  const handleDrop = (status: ApplicationStatus) => {
+    const app = columns.flatMap(column => column.applications).find(app => app.id === draggingId);
+    setDraggingId(null);
+    setDropTarget(null);
+    if (app) moveTo(app, status);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, app: JobApplication) => {
+    const index = columns.findIndex(column => column.status === app.status);
+    const target = e.key === "ArrowLeft" ? columns[index - 1]?.status
+      : e.key === "ArrowRight" ? columns[index + 1]?.status
+      : undefined;
+
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      setViewingApp(app);
+    } else if (target) {
+      e.preventDefault();
+      pendingFocus.current = { id: app.id!, status: target };
+      moveTo(app, target);
+    }
+  };
+
+  return (
+    <PageShell>
+      <PageHeader
+        title="Board"
+        description="Drag applications between stages, or focus a card and use the left and right arrow keys"
+      />
+
+      <p className="sr-only" aria-live="polite">{announcement}</p>
+      <p id="board-instructions" className="sr-only">
+        Press left or right arrow to move to the neighbouring stage, Enter to open the history
+      </p>
+
+      {/* One column per stage, scrolling sideways when the pipeline is long */}
+      <div className="grid grid-cols-1 md:grid-flow-col md:auto-cols-[minmax(220px,1fr)] gap-4 overflow-x-auto pb-2 animate-slide-up stagger-1">
+        {columns.map(({ status, applications }) => (
+          <section
+            key={status}
+            aria-label={status}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTarget(status);
+            }}
+            onDragLeave={(e) => {
+              // Moving over a card inside the column still counts as over it
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(status);
+            }}
+            className={cn(
+              "glass-effect rounded-xl p-3 shadow-lg min-h-[240px] transition-colors",
+              dropTarget === status && "ring-2 ring-slate-900"
+            )}
+          >
+            <h2 className="flex items-center justify-between px-1 mb-3 font-semibold text-slate-900">
+              {status}
+              <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-600">
+                {applications.length}
+              </span>
+            </h2>
+
+            <ul className="space-y-2">
+              {applications.map(app => {
+                const daysRemaining = getDaysRemaining(app.coolOffEnds);
+
+                return (
+                  <li
+                    key={app.id}
+                    id={`card-${app.id}`}
+                    tabIndex={0}
+                    draggable
+                    aria-describedby="board-instructions"
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData("text/plain", String(app.id));
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggingId(app.id!);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropTarget(null);
+                    }}
+                    onKeyDown={(e) => handleKeyDown(e, app)}
+                    onClick={() => setViewingApp(app)}
+                    className={cn(
+                      "rounded-lg border border-slate-200 bg-white p-3 text-sm shadow-sm cursor-grab outline-none focus-visible:ring-2 focus-visible:ring-slate-900",
+                      draggingId === app.id && "opacity-50"
+                    )}
+                  >
+                    <p className="flex items-center font-medium text-slate-900">
+                      <Building2 className="w-4 h-4 mr-2 text-slate-400 flex-shrink-0" />
+                      {app.company}
+                    </p>
+                    <p className="flex items-center mt-1 text-slate-700">
+                      <BriefcaseBusinessIcon className="w-4 h-4 mr-2 text-slate-400 flex-shrink-0" />
+                      {app.jobTitle}
+                    </p>
+                    <p className="flex items-center mt-1 text-xs text-slate-500">
+                      <MapPin className="w-3 h-3 mr-2 flex-shrink-0" />
+                      {app.location}
+                    </p>
+                    <span
+                      className={cn(
+                        "inline-block mt-2 rounded-full px-2 py-0.5 text-xs",
+                        daysRemaining > 0 ? "bg-orange-50 text-orange-700" : "bg-green-50 text-green-700"
+                      )}
+                    >
+                      {daysRemaining > 0 ? `Cool-off: ${daysRemaining} days left` : "Can reapply"}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))}
+      </div>
+
+      <ApplicationDetailDialog
+        application={viewingApp}
+        onClose={() => setViewingApp(null)}
+      />
+    </PageShell>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { ChevronLeft, ChevronRight, Building2 } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PageHeader, PageShell } from '@/components/page-shell';
+import { ApplicationDetailDialog } from '@/components/application-detail-dialog';
+import { type JobApplication } from '@/lib/db';
+import { CALENDAR_EVENT_LABELS, listCalendarEvents, type CalendarEvent, type CalendarEventKind } from '@/lib/calendar';
+import { addDays, addMonths, startOfMonth, startOfWeek, today } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+
+type CalendarView = "month" | "week";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const KIND_STYLES: Record<CalendarEventKind, string> = {
+  applied: "bg-blue-50 text-blue-700",
+  status: "bg-slate-100 text-slate-700",
+  interview: "bg-green-50 text-green-700",
+  "cool-off": "bg-orange-50 text-orange-700",
+};
+
+// Month cells show this many events before "+N more"
+const MONTH_CELL_EVENTS = 3;
+
+// Stored dates are UTC days, so they are formatted in UTC too
+function formatDay(date: string, options: Intl.DateTimeFormatOptions) {
+  return new Date(date).toLocaleDateString(undefined, { ...options, timeZone: "UTC" });
+}
+
+export default function CalendarPage() {
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(today());
+  const [selectedDay, setSelectedDay] = useState(today());
+  const [viewingApp, setViewingApp] = useState<JobApplication | null>(null);
+
+  // A month always shows six whole weeks, so the grid doesn't jump in height
+  const from = startOfWeek(view === "month" ? startOfMonth(anchor) : anchor);
+  const dayCount = view === "month" ? 42 : 7;
+  const to = addDays(from, dayCount - 1);
+  const days = useMemo(() => Array.from({ length: dayCount }, (_, i) => addDays(from, i)), [from, dayCount]);
+
+  const events = useLiveQuery(() => listCalendarEvents(from, to), [from, to], []);
+  const eventsByDay = useMemo(() => {
+    const byDay = new Map<string, CalendarEvent[]>();
+    for (const event of events) {
+      byDay.set(event.date, [...(byDay.get(event.date) ?? []), event]);
+    }
+    return byDay;
+  }, [events]);
+
+  const step = (direction: 1 | -1) => {
+    setAnchor(view === "month" ? addMonths(startOfMonth(anchor), direction) : addDays(anchor, direction * 7));
+  };
+
+  const title = view === "month"
+    ? formatDay(anchor, { month: "long", year: "numeric" })
+    : `${formatDay(from, { month: "short", day: "numeric" })} – ${formatDay(to, { month: "short", day: "numeric", year: "numeric" })}`;
+  const selectedEvents = eventsByDay.get(selectedDay) ?? [];
+
+  return (
+    <PageShell>
+      <PageHeader
+        title="Calendar"
+        description="When you applied, heard back, interviewed, and when cool-offs run out"
+      />
+
+      <div className="glass-effect rounded-xl p-6 shadow-lg mb-6 animate-slide-up stagger-1">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => step(-1)} aria-label="Previous">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => step(1)} aria-label="Next">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setAnchor(today());
+                setSelectedDay(today());
+              }}
+            >
+              Today
+            </Button>
+            <h2 className="text-2xl font-bold text-slate-900 ml-2">{title}</h2>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <div className="hidden md:flex items-center gap-3 text-xs">
+              {(Object.keys(CALENDAR_EVENT_LABELS) as CalendarEventKind[]).map(kind => (
+                <span key={kind} className={cn("rounded-full px-2 py-0.5", KIND_STYLES[kind])}>
+                  {CALENDAR_EVENT_LABELS[kind]}
+                </span>
+              ))}
+            </div>
+            <Select value={view} onValueChange={(value: CalendarView) => setView(value)}>
+              <SelectTrigger className="w-[120px]" aria-label="View">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="month">Month</SelectItem>
+                <SelectItem value="week">Week</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 gap-px rounded-lg overflow-hidden border border-slate-200 bg-slate-200">
+          {WEEKDAYS.map(weekday => (
+            <div key={weekday} className="bg-slate-900 text-white text-xs font-semibold px-2 py-2">
+              {weekday}
+            </div>
+          ))}
+
+          {days.map(day => {
+            const dayEvents = eventsByDay.get(day) ?? [];
+            const shown = view === "month" ? dayEvents.slice(0, MONTH_CELL_EVENTS) : dayEvents;
+            const outsideMonth = view === "month" && day.slice(0, 7) !== anchor.slice(0, 7);
+
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() => setSelectedDay(day)}
+                aria-pressed={day === selectedDay}
+                aria-label={`${formatDay(day, { dateStyle: "full" })}, ${dayEvents.length} events`}
+                className={cn(
+                  "bg-white p-2 text-left align-top hover:bg-slate-50 transition-colors",
+                  view === "month" ? "min-h-[110px]" : "min-h-[320px]",
+                  outsideMonth && "bg-slate-50 text-slate-400",
+                  day === selectedDay && "ring-2 ring-inset ring-slate-900"
+                )}
+              >
+                <span
+                  className={cn(
+                    "inline-flex items-center justify-center w-6 h-6 rounded-full text-xs font-medium",
+                    day === today() && "bg-slate-900 text-white"
+                  )}
+                >
+                  {Number(day.slice(8))}
+                </span>
+                <div className="mt-1 space-y-1">
+                  {shown.map((event, i) => (
+                    <div
+                      key={i}
+                      className={cn("truncate rounded px-1.5 py-0.5 text-xs", KIND_STYLES[event.kind])}
+                      title={`${CALENDAR_EVENT_LABELS[event.kind]}: ${event.application.company} · ${event.label}`}
+                    >
+                      {event.application.company}
+                    </div>
+                  ))}
+                  {dayEvents.length > shown.length && (
+                    <div className="text-xs text-slate-500 px-1.5">+{dayEvents.length - shown.length} more</div>
+                  )}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Per-day list */}
+      <div className="glass-effect rounded-xl p-6 shadow-lg animate-slide-up stagger-2">
+        <h2 className="text-2xl font-bold text-slate-900 mb-4">
+          {formatDay(selectedDay, { weekday: "long", month: "long", day: "numeric", year: "numeric" })}
+        </h2>
+        {selectedEvents.length === 0 ? (
+          <p className="text-sm text-slate-500">Nothing on this day</p>
+        ) : (
+          <ul className="space-y-2">
+            {selectedEvents.map((event, i) => (
+              <li key={i}>
+                <button
+                  type="button"
+                  onClick={() => setViewingApp(event.application)}
+                  className="w-full flex items-center justify-between gap-4 rounded-lg border border-slate-200 bg-white px-4 py-3 text-left hover:bg-slate-50 transition-colors"
+                >
+                  <div>
+                    <p className="flex items-center font-medium text-slate-900">
+                      <Building2 className="w-4 h-4 mr-2 text-slate-400" />
+                      {event.application.company}
+                    </p>
+                    <p className="text-sm text-slate-600">{event.label}</p>
+                  </div>
+                  <span className={cn("rounded-full px-2 py-0.5 text-xs whitespace-nowrap", KIND_STYLES[event.kind])}>
+                    {CALENDAR_EVENT_LABELS[event.kind]}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ApplicationDetailDialog
+        application={viewingApp}
+        onClose={() => setViewingApp(null)}
+      />
+    </PageShell>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Pencil, MapPin, BriefcaseBusinessIcon, History, ExternalLink, Mail, UserRound } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { PageHeader, PageShell } from '@/components/page-shell';
+import { ApplicationDetailDialog } from '@/components/application-detail-dialog';
+import { CompanyDialog } from '@/components/company-dialog';
+import { type JobApplication } from '@/lib/db';
+import { getCompanyOverview } from '@/lib/companies';
+import { COOL_OFF_SCOPE_LABELS, DEFAULT_COOL_OFF_MONTHS } from '@/lib/cool-off-policies';
+import { CONTACT_ROLE_LABELS } from '@/lib/contacts';
+import { getDaysRemaining } from '@/lib/dates';
+
+export default function CompanyPage() {
+  const params = useParams<{ id: string }>();
+  const id = Number(params.id);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [viewingApp, setViewingApp] = useState<JobApplication | null>(null);
+
+  // Wrapped so "still loading" (undefined) differs from "no such company"
+  const result = useLiveQuery(async () => ({ overview: await getCompanyOverview(id) }), [id]);
+  const overview = result?.overview;
+  const notFound = !!result && !overview;
+
+  if (!overview) {
+    return (
+      <PageShell>
+        <PageHeader
+          title={notFound ? "Company not found" : "Loading…"}
+          description={notFound ? "It may have been deleted or renamed" : ""}
+        />
+        {notFound && (
+          <Link href="/companies" className="text-sm text-slate-600 hover:underline">
+            Back to companies
+          </Link>
+        )}
+      </PageShell>
+    );
+  }
+
+  const { company, applications, policies, contacts, lockedUntil } = overview;
+
+  return (
+    <PageShell>
+      <PageHeader
+        title={company.name}
+        description={`${applications.length} ${applications.length === 1 ? "application" : "applications"} · tracked since ${new Date(company.createdAt).toLocaleDateString()}`}
+      >
+        {company.website && (
+          <Button variant="outline" asChild>
+            <a href={company.website} target="_blank" rel="noreferrer">
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Website
+            </a>
+          </Button>
+        )}
+        <Button
+          onClick={() => setIsDialogOpen(true)}
+          className="shadow-lg hover:shadow-xl transition-shadow"
+        >
+          <Pencil className="w-4 h-4 mr-2" />
+          Edit
+        </Button>
+      </PageHeader>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        {/* Cool-off */}
+        <div className="glass-effect rounded-xl p-6 shadow-lg animate-slide-up stagger-1">
+          <h2 className="text-lg font-semibold text-slate-900 mb-2">Cool-Off</h2>
+          {lockedUntil ? (
+            <>
+              <p className="text-2xl font-bold text-orange-600">{getDaysRemaining(lockedUntil)} days left</p>
+              <p className="text-sm text-slate-600 mt-1">
+                The last running cool-off ends {new Date(lockedUntil).toLocaleDateString()}
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="text-2xl font-bold text-green-600">None running</p>
+              <p className="text-sm text-slate-600 mt-1">Nothing here blocks a new application</p>
+            </>
+          )}
+        </div>
+
+        {/* Policy */}
+        <div className="glass-effect rounded-xl p-6 shadow-lg animate-slide-up stagger-2">
+          <h2 className="text-lg font-semibold text-slate-900 mb-2">Policy</h2>
+          {policies.length === 0 ? (
+            <p className="text-sm text-slate-600">
+              No policy, so cool-offs use the {DEFAULT_COOL_OFF_MONTHS}-month default.
+            </p>
+          ) : (
+            <ul className="space-y-2 text-sm text-slate-700">
+              {policies.map(policy => (
+                <li key={policy.id}>
+                  <span className="font-medium text-slate-900">{policy.roleFamily || "All roles"}</span>
+                  {": "}{policy.durationMonths} months {policy.startEvent === "application" ? "from applying" : "from rejection"},
+                  {" "}{COOL_OFF_SCOPE_LABELS[policy.scope].toLowerCase()}
+                </li>
+              ))}
+            </ul>
+          )}
+          <Link href="/policies" className="inline-block text-sm text-slate-500 hover:text-slate-900 mt-3">
+            Manage policies
+          </Link>
+        </div>
+
+        {/* Notes */}
+        <div className="glass-effect rounded-xl p-6 shadow-lg animate-slide-up stagger-3">
+          <h2 className="text-lg font-semibold text-slate-900 mb-2">Notes</h2>
+          {company.notes ? (
+            <p className="text-sm text-slate-700 whitespace-pre-wrap">{company.notes}</p>
+          ) : (
+            <p className="text-sm text-slate-500">No notes yet</p>
+          )}
+        </div>
+      </div>
+
+      {/* Applications */}
+      <div className="glass-effect rounded-xl shadow-lg overflow-hidden mb-6 animate-slide-up stagger-3">
+        <h2 className="text-lg font-semibold text-slate-900 px-6 pt-6 pb-4">Applications</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-900 text-white">
+              <tr>
+                <th className="px-6 py-3 text-left text-sm font-semibold">Job Title</th>
+                <th className="px-6 py-3 text-left text-sm font-semibold">Location</th>
+                <th className="px-6 py-3 text-left text-sm font-semibold">Status</th>
+                <th className="px-6 py-3 text-left text-sm font-semibold">Applied Date</th>
+                <th className="px-6 py-3 text-left text-sm font-semibold">Cool-Off Ends</th>
+                <th className="px-6 py-3 text-left text-sm font-semibold">History</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {applications.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-sm text-slate-500">
+                    No applications to {company.name} yet
+                  </td>
+                </tr>
+              ) : (
+                applications.map(app => {
+                  const daysRemaining = getDaysRemaining(app.coolOffEnds);
+
+                  return (
+                    <tr key={app.id} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-3">
+                        <div className="flex items-center">
+                          <BriefcaseBusinessIcon className="w-4 h-4 mr-2 text-slate-400" />
+                          <span className="text-slate-900">{app.jobTitle}</span>
+                          {app.attempt > 1 && (
+                            <span className="ml-2 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-600 whitespace-nowrap">
+                              Attempt {app.attempt}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-3">
+                        <div className="flex items-center">
+                          <MapPin className="w-4 h-4 mr-2 text-slate-400" />
+                          <span className="text-slate-700">{app.location}</span>
+                        </div>
+                      </td>
+                      <td className="px-6 py-3 text-slate-700">{app.status}</td>
+                      <td className="px-6 py-3 text-slate-700">{new Date(app.appliedDate).toLocaleDateString()}</td>
+                      <td className="px-6 py-3">
+                        <div className="text-slate-700">{new Date(app.coolOffEnds).toLocaleDateString()}</div>
+                        <div className={`text-xs mt-1 ${daysRemaining > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                          {daysRemaining > 0 ? `${daysRemaining} days left` : 'Can reapply'}
+                        </div>
+                      </td>
+                      <td className="px-6 py-3">
+                        <Button variant="ghost" size="icon" onClick={() => setViewingApp(app)}>
+                          <History className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Contacts */}
+      <div className="glass-effect rounded-xl p-6 shadow-lg animate-slide-up stagger-3">
+        <h2 className="text-lg font-semibold text-slate-900 mb-4">Contacts</h2>
+        {contacts.length === 0 ? (
+          <p className="text-sm text-slate-500">No contacts at {company.name} yet</p>
+        ) : (
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {contacts.map(contact => (
+              <li key={contact.id} className="rounded-lg border border-slate-200 px-4 py-3 text-sm">
+                <p className="flex items-center font-medium text-slate-900">
+                  <UserRound className="w-4 h-4 mr-2 text-slate-400" />
+                  {contact.name}
+                  <span className="ml-2 text-xs font-normal text-slate-500">{CONTACT_ROLE_LABELS[contact.role]}</span>
+                </p>
+                {contact.email && (
+                  <a href={`mailto:${contact.email}`} className="flex items-center text-slate-600 mt-1 hover:underline">
+                    <Mail className="w-3 h-3 mr-2" />
+                    {contact.email}
+                  </a>
+                )}
+                <p className="text-xs text-slate-500 mt-1">
+                  Last contacted {contact.lastContacted ? new Date(contact.lastContacted).toLocaleDateString() : "never"}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {isDialogOpen && (
+        <CompanyDialog
+          company={company}
+          onClose={() => setIsDialogOpen(false)}
+          onSaved={() => setIsDialogOpen(false)}
+        />
+      )}
+
+      <ApplicationDetailDialog
+        application={viewingApp}
+        onClose={() => setViewingApp(null)}
+      />
+    </PageShell>
+  );
+}
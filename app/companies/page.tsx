@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Plus, Building2, Search, Trash2 } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PageHeader, PageShell } from '@/components/page-shell';
+import { CompanyDialog } from '@/components/company-dialog';
+import { deleteCompany, listCompanies, type CompanySummary } from '@/lib/companies';
+import { getDaysRemaining } from '@/lib/dates';
+
+export default function CompaniesPage() {
+  const companies = useLiveQuery(listCompanies, [], [] as CompanySummary[]);
+  const [search, setSearch] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const handleDelete = async (id: number) => {
+    if (confirm("Are you sure you want to delete this company?")) {
+      try {
+        await deleteCompany(id);
+      } catch (error) {
+        console.error('Error deleting company:', error);
+        alert(error instanceof Error ? error.message : 'Failed to delete company');
+      }
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const visible = term
+    ? companies.filter(({ company }) => company.name.toLowerCase().includes(term))
+    : companies;
+
+  return (
+    <PageShell>
+      <PageHeader
+        title="Companies"
+        description="Your full history with each employer in one place"
+      >
+        <Button
+          onClick={() => setIsDialogOpen(true)}
+          className="shadow-lg hover:shadow-xl transition-shadow"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Company
+        </Button>
+      </PageHeader>
+
+      <div className="relative max-w-sm mb-6">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search companies"
+          aria-label="Search companies"
+          className="pl-9 bg-white"
+        />
+      </div>
+
+      <div className="glass-effect rounded-xl shadow-lg overflow-hidden animate-slide-up stagger-1">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-900 text-white">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Company</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Applications</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Last Applied</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Cool-Off</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {visible.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-slate-500">
+                    <Building2 className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+                    <p className="text-lg font-medium">{term ? "No matching companies" : "No companies yet"}</p>
+                    <p className="text-sm mt-1">Companies appear here as you add applications</p>
+                  </td>
+                </tr>
+              ) : (
+                visible.map(({ company, applications, lastApplied, lockedUntil }) => (
+                  <tr key={company.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <Link href={`/companies/${company.id}`} className="flex items-center hover:underline">
+                        <Building2 className="w-4 h-4 mr-2 text-slate-400" />
+                        <span className="font-medium text-slate-900">{company.name}</span>
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 text-slate-700">{applications}</td>
+                    <td className="px-6 py-4 text-slate-700">
+                      {lastApplied ? new Date(lastApplied).toLocaleDateString() : "Never"}
+                    </td>
+                    <td className="px-6 py-4">
+                      {lockedUntil ? (
+                        <span className="text-sm text-orange-600">
+                          Until {new Date(lockedUntil).toLocaleDateString()} ({getDaysRemaining(lockedUntil)} days)
+                        </span>
+                      ) : (
+                        <span className="text-sm text-green-600">None running</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(company.id!)}
+                        disabled={applications > 0}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isDialogOpen && (
+        <CompanyDialog
+          onClose={() => setIsDialogOpen(false)}
+          onSaved={() => setIsDialogOpen(false)}
+        />
+      )}
+    </PageShell>
+  );
+}
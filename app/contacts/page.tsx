@@ -0,0 +1,295 @@
+"use client";
+
+import { useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Plus, Pencil, Trash2, Building2, Mail, Linkedin, UserRound } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PageHeader, PageShell } from '@/components/page-shell';
+import { type Contact, type ContactRole } from '@/lib/db';
+import {
+  CONTACT_ROLE_LABELS,
+  createContact,
+  deleteContact,
+  listContacts,
+  updateContact,
+  type ContactInput,
+} from '@/lib/contacts';
+import { localToday } from '@/lib/dates';
+
+const EMPTY_CONTACT: ContactInput = {
+  name: "",
+  role: "recruiter",
+  company: "",
+  email: "",
+  linkedIn: "",
+  notes: "",
+  lastContacted: "",
+};
+
+export default function ContactsPage() {
+  const contacts = useLiveQuery(listContacts, [], []);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<ContactInput>(EMPTY_CONTACT);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (editingId) {
+        await updateContact(editingId, formData);
+      } else {
+        await createContact(formData);
+      }
+
+      resetForm();
+    } catch (error) {
+      console.error('Error saving contact:', error);
+      alert('Failed to save contact');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_CONTACT);
+    setEditingId(null);
+    setIsDialogOpen(false);
+  };
+
+  const handleEdit = (contact: Contact) => {
+    setFormData({
+      name: contact.name,
+      role: contact.role,
+      company: contact.company,
+      email: contact.email,
+      linkedIn: contact.linkedIn,
+      notes: contact.notes,
+      lastContacted: contact.lastContacted,
+    });
+    setEditingId(contact.id!);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (confirm("Are you sure you want to delete this contact?")) {
+      try {
+        await deleteContact(id);
+      } catch (error) {
+        console.error('Error deleting contact:', error);
+      }
+    }
+  };
+
+  return (
+    <PageShell>
+      <PageHeader
+        title="Contacts"
+        description="Referrers, recruiters and hiring managers, linked to the applications they are part of"
+      >
+        <Button
+          onClick={() => setIsDialogOpen(true)}
+          className="shadow-lg hover:shadow-xl transition-shadow"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Contact
+        </Button>
+      </PageHeader>
+
+      <div className="glass-effect rounded-xl shadow-lg overflow-hidden animate-slide-up stagger-1">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-900 text-white">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Name</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Role</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Company</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Reach</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Last Contacted</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Applications</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {contacts.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-slate-500">
+                    <UserRound className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+                    <p className="text-lg font-medium">No contacts yet</p>
+                    <p className="text-sm mt-1">Add the people who refer you or reach out about roles</p>
+                  </td>
+                </tr>
+              ) : (
+                contacts.map((contact) => (
+                  <tr key={contact.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-slate-900">{contact.name}</p>
+                      {contact.notes && <p className="text-xs text-slate-500 line-clamp-1">{contact.notes}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-slate-700">{CONTACT_ROLE_LABELS[contact.role]}</td>
+                    <td className="px-6 py-4">
+                      {contact.company && (
+                        <div className="flex items-center text-slate-700">
+                          <Building2 className="w-4 h-4 mr-2 text-slate-400" />
+                          {contact.company}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-700 space-y-1">
+                      {contact.email && (
+                        <a href={`mailto:${contact.email}`} className="flex items-center hover:underline">
+                          <Mail className="w-4 h-4 mr-2 text-slate-400" />
+                          {contact.email}
+                        </a>
+                      )}
+                      {contact.linkedIn && (
+                        <div className="flex items-center">
+                          <Linkedin className="w-4 h-4 mr-2 text-slate-400" />
+                          {contact.linkedIn}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-slate-700">
+                      {contact.lastContacted ? new Date(contact.lastContacted).toLocaleDateString() : "Never"}
+                    </td>
+                    <td className="px-6 py-4 text-slate-700">{contact.applicationIds.length}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleEdit(contact)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(contact.id!)}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => open ? setIsDialogOpen(true) : resetForm()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Contact" : "New Contact"}</DialogTitle>
+            <DialogDescription>
+              Link contacts to applications from the application dialog
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div>
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Jane Doe"
+                required
+                className="mt-1"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="role">Role</Label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(value: ContactRole) => setFormData({ ...formData, role: value })}
+                >
+                  <SelectTrigger id="role" className="mt-1 w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CONTACT_ROLE_LABELS) as ContactRole[]).map(role => (
+                      <SelectItem key={role} value={role}>{CONTACT_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="company">Company</Label>
+                <Input
+                  id="company"
+                  value={formData.company}
+                  onChange={(e) => setFormData({ ...formData, company: e.target.value })}
+                  placeholder="e.g., Google"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="linkedIn">LinkedIn</Label>
+                <Input
+                  id="linkedIn"
+                  value={formData.linkedIn}
+                  onChange={(e) => setFormData({ ...formData, linkedIn: e.target.value })}
+                  placeholder="e.g., in/janedoe"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="lastContacted">Last Contacted</Label>
+              <Input
+                id="lastContacted"
+                type="date"
+                value={formData.lastContacted}
+                max={localToday()}
+                onChange={(e) => setFormData({ ...formData, lastContacted: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="notes">Notes</Label>
+              <textarea
+                id="notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={3}
+                className="mt-1 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 mt-6">
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingId ? "Update" : "Add"} Contact
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </PageShell>
+  );
+}
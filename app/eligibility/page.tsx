@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { PageHeader, PageShell } from '@/components/page-shell';
+import { EligibilityPanel } from '@/components/eligibility-panel';
+
+export default function EligibilityPage() {
+  const [candidate, setCandidate] = useState({
+    company: "",
+    jobTitle: "",
+    location: "",
+  });
+
+  return (
+    <PageShell>
+      <PageHeader
+        title="Can I Apply?"
+        description="Check earlier applications and running cool-offs before applying somewhere"
+      />
+
+      <div className="glass-effect rounded-xl p-6 shadow-lg max-w-2xl animate-slide-up stagger-1">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div>
+            <Label htmlFor="company">Company</Label>
+            <Input
+              id="company"
+              value={candidate.company}
+              onChange={(e) => setCandidate({ ...candidate, company: e.target.value })}
+              placeholder="e.g., Google"
+              className="mt-1 bg-white"
+            />
+          </div>
+          <div>
+            <Label htmlFor="jobTitle">Job Title</Label>
+            <Input
+              id="jobTitle"
+              value={candidate.jobTitle}
+              onChange={(e) => setCandidate({ ...candidate, jobTitle: e.target.value })}
+              placeholder="Any role"
+              className="mt-1 bg-white"
+            />
+          </div>
+          <div>
+            <Label htmlFor="location">Location</Label>
+            <Input
+              id="location"
+              value={candidate.location}
+              onChange={(e) => setCandidate({ ...candidate, location: e.target.value })}
+              placeholder="Any location"
+              className="mt-1 bg-white"
+            />
+          </div>
+        </div>
+
+        {candidate.company.trim() ? (
+          <EligibilityPanel candidate={candidate} showEmpty />
+        ) : (
+          <p className="text-sm text-slate-500">Enter a company to see your history there.</p>
+        )}
+      </div>
+    </PageShell>
+  );
+}
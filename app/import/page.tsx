@@ -0,0 +1,225 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Upload, AlertCircle, CheckCircle2, AlertTriangle, Loader2 } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PageHeader, PageShell } from '@/components/page-shell';
+import { createApplications } from '@/lib/applications';
+import { parseCsv } from '@/lib/csv';
+import { CSV_FIELDS, guessMapping, validateCsvRows, type CsvField, type CsvMapping, type CsvRowResult } from '@/lib/csv-import';
+import { SELECT_NONE } from '@/lib/select';
+
+export default function ImportPage() {
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [results, setResults] = useState<CsvRowResult[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [status, setStatus] = useState<'idle' | 'importing' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+
+  // Re-validate whenever the mapping changes
+  useEffect(() => {
+    if (!mapping) return;
+
+    let cancelled = false;
+    validateCsvRows(rows, mapping)
+      .then(validated => {
+        if (!cancelled) setResults(validated);
+      })
+      .catch(error => console.error('Error validating rows:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rows, mapping]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setMapping(null);
+    setResults([]);
+    setStatus('idle');
+    if (!file) return;
+
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      setStatus('error');
+      setMessage('The file needs a header row and at least one data row');
+      return;
+    }
+
+    setHeaders(headerRow);
+    setRows(dataRows);
+    setMapping(guessMapping(headerRow));
+  };
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === SELECT_NONE ? null : Number(value) });
+  };
+
+  const importable = results.filter(result => result.fields && !(skipDuplicates && result.duplicate));
+  const invalidCount = results.filter(result => result.errors.length > 0).length;
+  const duplicateCount = results.filter(result => result.duplicate).length;
+
+  const handleImport = async () => {
+    setStatus('importing');
+    try {
+      await createApplications(importable.map(result => ({
+        fields: result.fields!,
+        rejectedDate: result.rejectedDate,
+      })));
+      setStatus('success');
+      setMessage(`Imported ${importable.length} applications`);
+      setMapping(null);
+      setResults([]);
+    } catch (error) {
+      setStatus('error');
+      setMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.error('CSV import error:', error);
+    }
+  };
+
+  return (
+    <PageShell>
+      <PageHeader
+        title="Import CSV"
+        description="Bring in applications tracked in a spreadsheet"
+      />
+
+      <div className="glass-effect rounded-xl p-6 shadow-lg mb-6 animate-slide-up stagger-1">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">1. Upload</h2>
+        <p className="text-sm text-slate-600 mb-4">
+          Export your sheet as CSV with a header row. Dates may be YYYY-MM-DD or M/D/YYYY.
+        </p>
+        <Input
+          type="file"
+          accept="text/csv,.csv"
+          onChange={handleFileChange}
+          className="max-w-md"
+        />
+      </div>
+
+      {mapping && (
+        <>
+          <div className="glass-effect rounded-xl p-6 shadow-lg mb-6 animate-slide-up stagger-2">
+            <h2 className="text-2xl font-bold text-slate-900 mb-4">2. Map Columns</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {CSV_FIELDS.map(({ field, label, required, hint }) => (
+                <div key={field}>
+                  <Label htmlFor={`map-${field}`}>
+                    {label}{required && <span className="text-red-600">*</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field] === null ? SELECT_NONE : String(mapping[field])}
+                    onValueChange={(value) => handleMappingChange(field, value)}
+                  >
+                    <SelectTrigger id={`map-${field}`} className="mt-1 w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SELECT_NONE}>Not mapped</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {hint && <p className="text-xs text-slate-500 mt-1">{hint}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="glass-effect rounded-xl shadow-lg overflow-hidden mb-6 animate-slide-up stagger-3">
+            <div className="p-6 flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <h2 className="text-2xl font-bold text-slate-900 mb-1">3. Review</h2>
+                <p className="text-sm text-slate-600">
+                  {results.length} rows · {invalidCount} with errors · {duplicateCount} duplicates
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={skipDuplicates}
+                    onChange={(e) => setSkipDuplicates(e.target.checked)}
+                  />
+                  Skip duplicates
+                </label>
+                <Button onClick={handleImport} disabled={importable.length === 0 || status === 'importing'}>
+                  {status === 'importing'
+                    ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    : <Upload className="w-4 h-4 mr-2" />}
+                  Import {importable.length} Rows
+                </Button>
+              </div>
+            </div>
+            <div className="overflow-x-auto max-h-[480px] overflow-y-auto">
+              <table className="w-full">
+                <thead className="bg-slate-900 text-white sticky top-0">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-sm font-semibold">Line</th>
+                    <th className="px-6 py-3 text-left text-sm font-semibold">Company</th>
+                    <th className="px-6 py-3 text-left text-sm font-semibold">Job Title</th>
+                    <th className="px-6 py-3 text-left text-sm font-semibold">Location</th>
+                    <th className="px-6 py-3 text-left text-sm font-semibold">Status</th>
+                    <th className="px-6 py-3 text-left text-sm font-semibold">Applied Date</th>
+                    <th className="px-6 py-3 text-left text-sm font-semibold">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200">
+                  {results.map(result => (
+                    <tr key={result.line} className={result.errors.length > 0 ? "bg-red-50" : ""}>
+                      <td className="px-6 py-3 text-sm text-slate-500">{result.line}</td>
+                      <td className="px-6 py-3 text-sm text-slate-900">{result.fields?.company}</td>
+                      <td className="px-6 py-3 text-sm text-slate-700">{result.fields?.jobTitle}</td>
+                      <td className="px-6 py-3 text-sm text-slate-700">{result.fields?.location}</td>
+                      <td className="px-6 py-3 text-sm text-slate-700">{result.fields?.status}</td>
+                      <td className="px-6 py-3 text-sm text-slate-700">{result.fields?.appliedDate}</td>
+                      <td className="px-6 py-3 text-sm">
+                        {result.errors.length > 0 ? (
+                          <div className="flex items-start text-red-700">
+                            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                            <span>{result.errors.join("; ")}</span>
+                          </div>
+                        ) : result.duplicate ? (
+                          <div className="flex items-center text-orange-600">
+                            <AlertTriangle className="w-4 h-4 mr-2" />
+                            {result.duplicate === "existing" ? "Already tracked, imports as a new attempt" : "Repeated in file"}
+                          </div>
+                        ) : (
+                          <div className="flex items-center text-green-700">
+                            <CheckCircle2 className="w-4 h-4 mr-2" />
+                            Ready
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {status === 'success' && (
+        <div className="flex items-center text-green-700">
+          <CheckCircle2 className="w-5 h-5 mr-2" />
+          {message}
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className="flex items-center text-red-700">
+          <AlertCircle className="w-5 h-5 mr-2" />
+          {message}
+        </div>
+      )}
+    </PageShell>
+  );
+}
@@ -1,5 +1,9 @@
-import type { Metadata } from "next";
-import { Geist, Geist_Mono } from "next/font/google";
+import type { Metadata, Viewport } from "next";
+import { Geist, Geist_Mono, Questrial, Space_Mono, Syne, Work_Sans } from "next/font/google";
+import { ReminderRunner } from "@/components/reminder-runner";
+import { AppInstaller } from "@/components/install-prompt";
+import { TrashPurger } from "@/components/trash-purger";
+import { UndoToast } from "@/components/undo-toast";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -12,9 +16,45 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+// next/font downloads these at build time and serves them from the app, so
+// they are precached with everything else and work offline
+const questrial = Questrial({
+  variable: "--font-questrial",
+  weight: "400",
+  subsets: ["latin"],
+});
+
+const workSans = Work_Sans({
+  variable: "--font-work-sans",
+  subsets: ["latin"],
+});
+
+// Only the migration page uses these
+const spaceMono = Space_Mono({
+  variable: "--font-space-mono",
+  weight: ["400", "700"],
+  subsets: ["latin"],
+  preload: false,
+});
+
+const syne = Syne({
+  variable: "--font-syne",
+  subsets: ["latin"],
+  preload: false,
+});
+
 export const metadata: Metadata = {
   title: "Zhiwei ZZQ | Job Application Tracker",
   description: "Vibe coded by Shan Padayhag",
+  appleWebApp: {
+    capable: true,
+    title: "Zhiwei ZZQ",
+    statusBarStyle: "default",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#0f172a",
 };
 
 export default function RootLayout({
@@ -22,10 +62,16 @@ export default function RootLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const fontVariables = [geistSans, geistMono, questrial, workSans, spaceMono, syne].map(font => font.variable).join(" ");
+
   return (
     <html lang="en">
-      <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
+      <body className={`${fontVariables} antialiased`}>
         {children}
+        <AppInstaller />
+        <ReminderRunner />
+        <TrashPurger />
+        <UndoToast />
       </body>
     </html>
   );
@@ -3,31 +3,7 @@
 import { useState } from "react";
 import { Database, ArrowRight, CheckCircle2, AlertCircle, Loader2 } from "lucide-react";
 import { Button } from '@/components/ui/button';
-import Dexie from 'dexie';
-
-// Types
-type ApplicationStatus = "Applied" | "Interviewing" | "Offer" | "Rejected" | "Withdrawn";
-type CoolOffStartType = "application" | "rejection";
-
-interface JobApplication {
-  id?: number;
-  company: string;
-  jobTitle: string;
-  location: string;
-  status: ApplicationStatus;
-  appliedDate: string;
-  coolOffEnds: string;
-  coolOffStartType: CoolOffStartType;
-}
-
-// Database setup
-const db = new Dexie('JobApplicationsDB') as Dexie & {
-  applications: Dexie.Table<JobApplication, number>;
-};
-
-db.version(1).stores({
-  applications: '++id, company, jobTitle, location, status, appliedDate, coolOffEnds, coolOffStartType'
-});
+import { countApplications, replaceAllApplications } from '@/lib/applications';
 
 export default function MigratePage() {
   const [status, setStatus] = useState<'idle' | 'migrating' | 'success' | 'error'>('idle');
@@ -59,11 +35,8 @@ export default function MigratePage() {
 
       setMessage(`Migrating ${applications.length} applications to IndexedDB...`);
 
-      // Clear existing data in IndexedDB
-      await db.applications.clear();
-
-      // Insert all applications
-      await db.applications.bulkAdd(applications);
+      // Replace existing data in IndexedDB with all applications
+      await replaceAllApplications(applications);
 
       setStatus('success');
       setMessage(`Successfully migrated ${applications.length} applications!`);
@@ -79,7 +52,7 @@ export default function MigratePage() {
 
   const handleVerify = async () => {
     try {
-      const count = await db.applications.count();
+      const count = await countApplications();
       alert(`IndexedDB contains ${count} applications`);
     } catch (error: any) {
       alert(`Verification failed: ${error.message}`);
@@ -89,14 +62,12 @@ export default function MigratePage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center p-4">
       <style jsx global>{`
-        @import url('https://fonts.googleapis.com/css2?family=Space+Mono:wght@400;700&family=Syne:wght@400;600;700;800&display=swap');
-
         body {
-          font-family: 'Space Mono', monospace;
+          font-family: var(--font-space-mono), monospace;
         }
 
         h1, h2, h3 {
-          font-family: 'Syne', sans-serif;
+          font-family: var(--font-syne), sans-serif;
         }
 
         @keyframes float {
@@ -1,159 +1,305 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { Plus, Pencil, Trash2, Building2, MapPin, BriefcaseBusinessIcon, Calendar, Clock, ChevronLeft, ChevronRight } from "lucide-react";
+import { useState, useEffect, useMemo, Suspense } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Plus, Pencil, Trash2, Building2, MapPin, BriefcaseBusinessIcon, Calendar, Clock, ChevronLeft, ChevronRight, History, Users, Handshake, ExternalLink } from "lucide-react";
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import Dexie from 'dexie';
-
-// Types
-type ApplicationStatus = "Applied" | "Interviewing" | "Offer" | "Rejected" | "Withdrawn";
-type CoolOffStartType = "application" | "rejection";
-
-interface JobApplication {
-  id?: number;
-  company: string;
-  jobTitle: string;
-  location: string;
-  status: ApplicationStatus;
-  appliedDate: string;
-  coolOffEnds: string;
-  coolOffStartType: CoolOffStartType;
+import { PageHeader, PageShell } from '@/components/page-shell';
+import { ApplicationDetailDialog } from '@/components/application-detail-dialog';
+import { ApplicationFilters, SortableHeader } from '@/components/application-filters';
+import { EligibilityPanel } from '@/components/eligibility-panel';
+import { ContactPicker } from '@/components/contact-picker';
+import { BulkActions } from '@/components/bulk-actions';
+import { showUndo } from '@/components/undo-toast';
+import { type ApplicationStatus, type Contact, type CoolOffStartType, type JobApplication, type Seniority, type WorkMode } from '@/lib/db';
+import { COMMON_CURRENCIES, COMMON_SOURCES, SENIORITY_LABELS, WORK_MODE_LABELS, applicationKey, changeApplicationStatus, countApplications, countApplicationsThrough, createApplication, findLatestAttempt, formatSalary, getApplication, getApplicationStats, listApplicationBatch, listApplicationIds, listApplications, pageCursor, parseTags, revertStatusChanges, updateApplication, type ApplicationStats } from '@/lib/applications';
+import { findLatestStatusEvent } from '@/lib/status-history';
+import { listUpcomingInterviews, ROUND_TYPE_LABELS } from '@/lib/interviews';
+import { listApplicationContacts, listReferrers, setApplicationContacts } from '@/lib/contacts';
+import { COOL_OFF_SCOPE_LABELS, DEFAULT_COOL_OFF_MONTHS, getCoolOffTerms, type CoolOffTerms } from '@/lib/cool-off-policies';
+import { addMonths, getDaysRemaining, localToday, today } from '@/lib/dates';
+import { firstPage, hasActiveFilters, parseQuery, serializeQuery, type ApplicationQuery, type PageCursor } from '@/lib/application-query';
+import { getSetting, saveSetting } from '@/lib/settings';
+import { restoreApplications, trashApplication } from '@/lib/trash';
+import { DEFAULT_PIPELINE, initialStage, isCoolOffTrigger, listStages } from '@/lib/pipeline';
+import { SELECT_NONE } from '@/lib/select';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import { useLiveBatches } from '@/hooks/use-live-batches';
+
+// useSearchParams needs a Suspense boundary to prerender
+export default function Home() {
+  return (
+    <Suspense>
+      <ApplicationTracker />
+    </Suspense>
+  );
 }
 
-// Database setup
-const db = new Dexie('JobApplicationsDB') as Dexie & {
-  applications: Dexie.Table<JobApplication, number>;
+const EMPTY_STATS: ApplicationStats = {
+  total: 0,
+  inProgress: 0,
+  offers: 0,
+  activeCoolOffs: 0,
 };
 
-db.version(1).stores({
-  applications: '++id, company, jobTitle, location, status, appliedDate, coolOffEnds, coolOffStartType'
-});
+type ListMode = "pages" | "scroll";
+type OptionalColumn = "source" | "workMode" | "seniority" | "salary" | "postingUrl";
+
+// Shown after the fixed columns, in this order, when switched on
+const OPTIONAL_COLUMNS: Record<OptionalColumn, string> = {
+  source: "Source",
+  workMode: "Work Mode",
+  seniority: "Seniority",
+  salary: "Salary",
+  postingUrl: "Posting",
+};
+
+const LIST_SETTINGS_KEY = "applicationList";
+const DEFAULT_LIST_SETTINGS: { mode: ListMode; columns: OptionalColumn[] } = { mode: "pages", columns: [] };
+
+const ITEMS_PER_PAGE = 10;
+
+// Infinite scroll loads this many more rows each time the end comes into view
+const SCROLL_BATCH = 50;
+// Rows are measured as they render; this stands in for the rest
+const ESTIMATED_ROW_HEIGHT = 96;
+const SCROLL_VIEWPORT_HEIGHT = 640;
+
+const NO_SELECTION = new Set<number>();
+
+function ApplicationTracker() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
+  const query = useMemo(() => parseQuery(new URLSearchParams(queryString)), [queryString]);
+  // The filters and sort without the page, for state that outlives paging
+  const viewKey = serializeQuery(firstPage(query));
 
-export default function Home() {
-  const [applications, setApplications] = useState<JobApplication[]>([]);
-  const [totalCount, setTotalCount] = useState(0);
-  const [currentPage, setCurrentPage] = useState(1);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
-  const [stats, setStats] = useState({
-    total: 0,
-    interviewing: 0,
-    offers: 0,
-    activeCoolOffs: 0,
-  });
+  const [viewingApp, setViewingApp] = useState<JobApplication | null>(null);
+  const [coolOffTerms, setCoolOffTerms] = useState<CoolOffTerms | null>(null);
   const [formData, setFormData] = useState({
     company: "",
     jobTitle: "",
     location: "",
-    status: "Applied" as ApplicationStatus,
+    source: "",
+    // Empty until picked, which means the pipeline's first stage
+    status: "" as ApplicationStatus,
     coolOffStartType: "application" as CoolOffStartType,
+    appliedDate: localToday(),
+    rejectedDate: "",
+    contactIds: [] as number[],
+    tags: "",
+    postingUrl: "",
+    salaryMin: "",
+    salaryMax: "",
+    salaryCurrency: "",
+    workMode: "" as WorkMode | "",
+    seniority: "" as Seniority | "",
   });
 
-  const ITEMS_PER_PAGE = 10;
+  // Filter, sort and page live in the URL; any change returns to the first page
+  const updateQuery = (changes: Partial<ApplicationQuery>) => {
+    const next = serializeQuery({ ...firstPage(query), ...changes });
+    router.replace(next ? `${pathname}?${next}` : pathname, { scroll: false });
+  };
+
+  const listSettings = useLiveQuery(
+    () => getSetting(LIST_SETTINGS_KEY, DEFAULT_LIST_SETTINGS),
+    [],
+    DEFAULT_LIST_SETTINGS
+  );
+  const listMode = listSettings.mode;
+  const shownColumns = (Object.keys(OPTIONAL_COLUMNS) as OptionalColumn[]).filter(column => listSettings.columns.includes(column));
+
+  // Infinite scroll loads each batch after the last row of the one before,
+  // kept here as cursors; they start over whenever the filters or sort change
+  const [scrolling, setScrolling] = useState({ viewKey, cursors: [] as PageCursor[] });
+  const scrollCursors = scrolling.viewKey === viewKey ? scrolling.cursors : [];
+  const scrollBatches = useLiveBatches(listMode === "scroll"
+    ? [null, ...scrollCursors].map((after, i) => {
+      const through = scrollCursors[i] ?? null;
+      return {
+        key: [viewKey, after && `${after.id}:${after.value}`, through && `${through.id}:${through.value}`].join("|"),
+        load: () => listApplicationBatch(query, SCROLL_BATCH, after, through),
+      };
+    })
+    : []);
+
+  // Live queries re-run whenever the tables they read change, in this tab
+  // or any other, so writes below don't need to reload anything
+  const currentPage = useLiveQuery(async () => {
+    if (listMode === "scroll") return undefined;
+
+    let items = await listApplications(query, ITEMS_PER_PAGE, query);
+    let start = 0;
+    // Rows deleted or added since the page was opened can leave it short
+    // or empty; the first page is always whole
+    if (query.before ? items.length < ITEMS_PER_PAGE : items.length === 0 && query.after) {
+      items = await listApplications(query, ITEMS_PER_PAGE);
+    } else if ((query.after || query.before) && items.length > 0) {
+      start = await countApplicationsThrough(query, pageCursor(items[0], query)) - 1;
+    }
+    return { items, start };
+  }, [query, listMode]);
+  const applications = listMode === "scroll" ? scrollBatches.flat() : currentPage?.items ?? [];
+  const pageStart = currentPage?.start ?? 0;
+
+  const shownIds = applications.map(app => app.id!).join(",");
+  const shownDetails = useLiveQuery(async () => ({
+    total: await countApplications(query),
+    referrers: await listReferrers(shownIds ? shownIds.split(",").map(Number) : []),
+  }), [query, shownIds]);
+  const totalCount = shownDetails?.total ?? 0;
+  const referrers = shownDetails?.referrers ?? new Map<number, Contact[]>();
+
+  // Kept across pages, but cleared whenever the filters or sort change
+  const [selection, setSelection] = useState({ viewKey, ids: NO_SELECTION });
+  const selectedIds = selection.viewKey === viewKey ? selection.ids : NO_SELECTION;
+  const allShownSelected = applications.length > 0 && applications.every(app => selectedIds.has(app.id!));
+
+  const toggleSelected = (id: number) => {
+    const ids = new Set(selectedIds);
+    if (!ids.delete(id)) ids.add(id);
+    setSelection({ viewKey, ids });
+  };
+
+  const toggleAllShown = () => {
+    const ids = new Set(selectedIds);
+    for (const app of applications) {
+      if (allShownSelected) ids.delete(app.id!);
+      else ids.add(app.id!);
+    }
+    setSelection({ viewKey, ids });
+  };
 
-  // Load applications with cursor pagination
-  const loadApplications = async (page: number) => {
+  const handleSelectAllMatching = async () => {
     try {
-      const offset = (page - 1) * ITEMS_PER_PAGE;
+      setSelection({ viewKey, ids: new Set(await listApplicationIds(query)) });
+    } catch (error) {
+      console.error('Error selecting applications:', error);
+    }
+  };
 
-      // Get total count
-      const total = await db.applications.count();
-      setTotalCount(total);
+  const handleNextPage = () => {
+    updateQuery({ after: pageCursor(applications[applications.length - 1], query) });
+  };
 
-      // Get paginated data (sorted by appliedDate descending)
-      const apps = await db.applications
-        .orderBy('appliedDate')
-        .reverse()
-        .offset(offset)
-        .limit(ITEMS_PER_PAGE)
-        .toArray();
+  const handlePreviousPage = () => {
+    updateQuery(pageStart - ITEMS_PER_PAGE > 0 ? { before: pageCursor(applications[0], query) } : {});
+  };
 
-      setApplications(apps);
+  const handleListModeChange = async (mode: ListMode) => {
+    try {
+      await saveSetting(LIST_SETTINGS_KEY, { ...listSettings, mode });
     } catch (error) {
-      console.error('Error loading applications:', error);
+      console.error('Error saving list mode:', error);
     }
   };
 
-  // Load stats
-  const loadStats = async () => {
+  const handleToggleColumn = async (column: OptionalColumn) => {
+    const columns = listSettings.columns.includes(column)
+      ? listSettings.columns.filter(shown => shown !== column)
+      : [...listSettings.columns, column];
     try {
-      const total = await db.applications.count();
-      const interviewing = await db.applications.where('status').equals('Interviewing').count();
-      const offers = await db.applications.where('status').equals('Offer').count();
-
-      // Calculate active cool-offs
-      const allApps = await db.applications.toArray();
-      const activeCoolOffs = allApps.filter(app => getDaysRemaining(app.coolOffEnds) > 0).length;
-
-      setStats({
-        total,
-        interviewing,
-        offers,
-        activeCoolOffs,
-      });
+      await saveSetting(LIST_SETTINGS_KEY, { ...listSettings, columns });
     } catch (error) {
-      console.error('Error loading stats:', error);
+      console.error('Error saving columns:', error);
     }
   };
 
-  // Initial load
+  // Only asks for more once the previous batch has arrived
+  const virtualRows = useVirtualRows({
+    count: applications.length,
+    estimatedRowHeight: ESTIMATED_ROW_HEIGHT,
+    viewportHeight: SCROLL_VIEWPORT_HEIGHT,
+    onEndReached: () => {
+      const lastBatch = scrollBatches[scrollCursors.length];
+      if (lastBatch?.length === SCROLL_BATCH && applications.length < totalCount) {
+        setScrolling({ viewKey, cursors: [...scrollCursors, pageCursor(lastBatch[lastBatch.length - 1], query)] });
+      }
+    },
+  });
+
+  const stats = useLiveQuery(getApplicationStats, [], EMPTY_STATS);
+  const stages = useLiveQuery(listStages, [], DEFAULT_PIPELINE.stages);
+  const formStatus = formData.status || initialStage(stages);
+
+  // The next few pending interview rounds
+  const upcoming = useLiveQuery(() => listUpcomingInterviews(5), [], []);
+
+  // Look up the cool-off policy for the company and role being entered
   useEffect(() => {
-    loadApplications(currentPage);
-    loadStats();
-  }, [currentPage]);
-
-  const calculateCoolOffDate = (appliedDate: string, startType: CoolOffStartType) => {
-    const date = new Date(appliedDate);
-    date.setMonth(date.getMonth() + 6);
-    return date.toISOString().split("T")[0];
-  };
+    if (!isDialogOpen) return;
+
+    let cancelled = false;
+    getCoolOffTerms(formData.company, formData.jobTitle, formData.coolOffStartType)
+      .then(terms => {
+        if (!cancelled) setCoolOffTerms(terms);
+      })
+      .catch(error => console.error('Error loading cool-off policy:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isDialogOpen, formData.company, formData.jobTitle, formData.coolOffStartType]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (formData.salaryMin && formData.salaryMax && Number(formData.salaryMax) < Number(formData.salaryMin)) {
+      alert("The top of the salary range can't be below the bottom.");
+      return;
+    }
+
     try {
-      // Check for duplicate (same company, job title, and location)
-      const existingApp = await db.applications
-        .where('company').equalsIgnoreCase(formData.company)
-        .and(app =>
-          app.jobTitle.toLowerCase() === formData.jobTitle.toLowerCase() &&
-          app.location.toLowerCase() === formData.location.toLowerCase() &&
-          app.id !== editingId
-        )
-        .first();
-
-      if (existingApp) {
-        alert("This application already exists! You cannot apply to the same company, role, and location.");
-        return;
+      // Same company, job title and location: a new application is only allowed
+      // as the next attempt once the previous one's cool-off has ended
+      const previousAttempt = await findLatestAttempt(formData, editingId);
+
+      if (previousAttempt) {
+        if (editingId) {
+          const original = await getApplication(editingId);
+          if (original && applicationKey(original) !== applicationKey(formData)) {
+            alert("Another application to the same company, role, and location already exists.");
+            return;
+          }
+        } else if (getDaysRemaining(previousAttempt.coolOffEnds) > 0) {
+          alert(`You already applied to this role. You can reapply from ${new Date(previousAttempt.coolOffEnds).toLocaleDateString()}.`);
+          return;
+        }
       }
 
-      const appliedDate = new Date().toISOString().split("T")[0];
-      const coolOffEnds = calculateCoolOffDate(appliedDate, formData.coolOffStartType);
-
-      if (editingId) {
+      // The cool-off end date is recomputed from these by the data layer
+      const { rejectedDate, contactIds, tags, salaryMin, salaryMax, workMode, seniority, ...rest } = formData;
+      const fields = {
+        ...rest,
+        status: formStatus,
+        tags: parseTags(tags),
+        salaryMin: salaryMin ? Number(salaryMin) : undefined,
+        salaryMax: salaryMax ? Number(salaryMax) : undefined,
+        workMode: workMode || undefined,
+        seniority: seniority || undefined,
+      };
+      let id = editingId;
+
+      if (id) {
         // Update existing
-        await db.applications.update(editingId, {
-          ...formData,
-        });
+        await updateApplication(id, fields, rejectedDate || undefined);
       } else {
         // Create new
-        const newApp: JobApplication = {
-          ...formData,
-          appliedDate,
-          coolOffEnds,
-        };
-        await db.applications.add(newApp);
+        id = await createApplication(fields, rejectedDate || undefined);
       }
+      await setApplicationContacts(id, contactIds);
 
       resetForm();
-
-      // Reload data
-      loadApplications(currentPage);
-      loadStats();
     } catch (error) {
       console.error('Error saving application:', error);
       alert('Failed to save application');
@@ -165,325 +311,444 @@ export default function Home() {
       company: "",
       jobTitle: "",
       location: "",
-      status: "Applied",
+      source: "",
+      status: "",
       coolOffStartType: "application",
+      appliedDate: localToday(),
+      rejectedDate: "",
+      contactIds: [],
+      tags: "",
+      postingUrl: "",
+      salaryMin: "",
+      salaryMax: "",
+      salaryCurrency: "",
+      workMode: "",
+      seniority: "",
     });
     setEditingId(null);
+    setCoolOffTerms(null);
     setIsDialogOpen(false);
   };
 
-  const handleEdit = (app: JobApplication) => {
+  const handleEdit = async (app: JobApplication) => {
+    const rejection = isCoolOffTrigger(stages, app.status) ? await findLatestStatusEvent(app.id!, app.status) : undefined;
+    const contacts = await listApplicationContacts(app.id!);
     setFormData({
       company: app.company,
       jobTitle: app.jobTitle,
       location: app.location,
+      source: app.source ?? "",
       status: app.status,
       coolOffStartType: app.coolOffStartType,
+      appliedDate: app.appliedDate,
+      rejectedDate: rejection?.date ?? "",
+      contactIds: contacts.map(contact => contact.id!),
+      tags: (app.tags ?? []).join(", "),
+      postingUrl: app.postingUrl ?? "",
+      salaryMin: app.salaryMin?.toString() ?? "",
+      salaryMax: app.salaryMax?.toString() ?? "",
+      salaryCurrency: app.salaryCurrency ?? "",
+      workMode: app.workMode ?? "",
+      seniority: app.seniority ?? "",
     });
     setEditingId(app.id!);
     setIsDialogOpen(true);
   };
 
-  const handleDelete = async (id: number) => {
-    if (confirm("Are you sure you want to delete this application?")) {
-      try {
-        await db.applications.delete(id);
-        loadApplications(currentPage);
-        loadStats();
-      } catch (error) {
-        console.error('Error deleting application:', error);
+  // Deleting moves to the trash, so there is nothing to confirm
+  const handleDelete = async (app: JobApplication) => {
+    try {
+      const trashId = await trashApplication(app.id!);
+      if (trashId !== undefined) {
+        showUndo(`Moved ${app.company} to the trash`, () => restoreApplications([trashId]));
       }
+    } catch (error) {
+      console.error('Error deleting application:', error);
     }
   };
 
-  const handleStatusChange = async (id: number, newStatus: ApplicationStatus) => {
+  const handleStatusChange = async (app: JobApplication, newStatus: ApplicationStatus) => {
     try {
-      const app = await db.applications.get(id);
-      if (!app) return;
-
-      let coolOffEnds = app.coolOffEnds;
-
-      // Recalculate cool-off if status changed to Rejected and cool-off starts on rejection
-      if (newStatus === "Rejected" && app.coolOffStartType === "rejection") {
-        coolOffEnds = calculateCoolOffDate(new Date().toISOString().split("T")[0], "rejection");
+      const change = await changeApplicationStatus(app.id!, newStatus);
+      if (change) {
+        showUndo(`Moved ${app.company} to ${newStatus}`, () => revertStatusChanges([change]));
       }
-
-      await db.applications.update(id, { status: newStatus, coolOffEnds });
-      loadApplications(currentPage);
-      loadStats();
     } catch (error) {
       console.error('Error updating status:', error);
     }
   };
 
-  const getDaysRemaining = (coolOffDate: string) => {
-    const today = new Date();
-    const endDate = new Date(coolOffDate);
-    const diffTime = endDate.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays;
-  };
-
-  const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE);
-
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100">
-      <style jsx global>{`
-        @import url('https://fonts.googleapis.com/css2?family=Questrial&family=Work+Sans:wght@400;500;600;700&display=swap');
-
-        body {
-          font-family: 'Work Sans', sans-serif;
-        }
-
-        h1, h2, h3 {
-          font-family: 'Questrial', sans-serif;
-        }
-
-        @keyframes slide-up {
-          from {
-            opacity: 0;
-            transform: translateY(10px);
-          }
-          to {
-            opacity: 1;
-            transform: translateY(0);
-          }
-        }
-
-        .animate-slide-up {
-          animation: slide-up 0.4s ease-out forwards;
-          opacity: 0;
-        }
-
-        .stagger-1 { animation-delay: 0.05s; }
-        .stagger-2 { animation-delay: 0.1s; }
-        .stagger-3 { animation-delay: 0.15s; }
-
-        .glass-effect {
-          background: rgba(255, 255, 255, 0.8);
-          backdrop-filter: blur(10px);
-          border: 1px solid rgba(255, 255, 255, 0.5);
-        }
-      `}</style>
-
-      <div className="container mx-auto px-4 py-12 max-w-7xl">
-        {/* Header */}
-        <div className="mb-12 animate-slide-up">
-          <div className="flex items-center justify-between">
-            <div>
-              <h1 className="text-5xl font-bold text-slate-900 mb-2 tracking-tight">
-                Application Tracker
-              </h1>
-              <p className="text-slate-600 text-lg">
-                Manage your job applications and cool-off periods
-              </p>
+  const renderRow = (app: JobApplication, measureRef?: (row: HTMLTableRowElement | null) => void) => {
+    const daysRemaining = getDaysRemaining(app.coolOffEnds);
+    const isCoolOffActive = daysRemaining > 0;
+    const referredBy = referrers.get(app.id!);
+
+    return (
+      <tr
+        key={app.id}
+        ref={measureRef}
+        className="hover:bg-slate-50 transition-colors"
+      >
+        <td className="pl-6 py-4">
+          <input
+            type="checkbox"
+            checked={selectedIds.has(app.id!)}
+            onChange={() => toggleSelected(app.id!)}
+            aria-label={`Select ${app.company} ${app.jobTitle}`}
+          />
+        </td>
+        <td className="px-6 py-4">
+          <div className="flex items-center">
+            <Building2 className="w-4 h-4 mr-2 text-slate-400" />
+            <span className="font-medium text-slate-900">{app.company}</span>
+            {referredBy && (
+              <span
+                className="ml-2 flex items-center rounded-full bg-green-50 px-2 py-0.5 text-xs text-green-700 whitespace-nowrap"
+                title={`Referred by ${referredBy.map(contact => contact.name).join(", ")}`}
+              >
+                <Handshake className="w-3 h-3 mr-1" />
+                Referral
+              </span>
+            )}
+          </div>
+        </td>
+        <td className="px-6 py-4">
+          <div className="flex items-center">
+            <BriefcaseBusinessIcon className="w-4 h-4 mr-2 text-slate-400" />
+            <span className="text-slate-700">{app.jobTitle}</span>
+            {app.attempt > 1 && (
+              <span className="ml-2 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-600 whitespace-nowrap">
+                Attempt {app.attempt}
+              </span>
+            )}
+            {app.tags?.map(tag => (
+              <span key={tag} className="ml-2 rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700 whitespace-nowrap">
+                {tag}
+              </span>
+            ))}
+          </div>
+        </td>
+        <td className="px-6 py-4">
+          <div className="flex items-center">
+            <MapPin className="w-4 h-4 mr-2 text-slate-400" />
+            <span className="text-slate-700">{app.location}</span>
+          </div>
+        </td>
+        <td className="px-6 py-4">
+          <Select
+            value={app.status}
+            onValueChange={(value: ApplicationStatus) => handleStatusChange(app, value)}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {stages.map(({ name }) => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </td>
+        <td className="px-6 py-4 text-slate-700">
+          {new Date(app.appliedDate).toLocaleDateString()}
+        </td>
+        <td className="px-6 py-4">
+          <div>
+            <div className="text-slate-700">
+              {new Date(app.coolOffEnds).toLocaleDateString()}
+            </div>
+            <div className={`text-xs mt-1 ${isCoolOffActive ? 'text-orange-600' : 'text-green-600'}`}>
+              {isCoolOffActive ? `${daysRemaining} days left` : 'Can reapply'}
             </div>
+            <div className="text-xs text-slate-500">
+              Starts: {app.coolOffStartType === "application" ? "On apply" : "On reject"}
+            </div>
+          </div>
+        </td>
+        {shownColumns.map(column => (
+          <td key={column} className="px-6 py-4 text-slate-700">
+            {renderOptionalCell(app, column)}
+          </td>
+        ))}
+        <td className="px-6 py-4">
+          <div className="flex items-center gap-2">
             <Button
-              onClick={() => setIsDialogOpen(true)}
-              className="shadow-lg hover:shadow-xl transition-shadow"
+              variant="ghost"
+              size="icon"
+              onClick={() => setViewingApp(app)}
             >
-              <Plus className="w-4 h-4 mr-2" />
-              New Application
+              <History className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleEdit(app)}
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleDelete(app)}
+            >
+              <Trash2 className="w-4 h-4 text-red-600" />
             </Button>
           </div>
-        </div>
+        </td>
+      </tr>
+    );
+  };
 
-        {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-          {[
-            { label: "Total Applications", value: stats.total, icon: BriefcaseBusinessIcon, color: "blue" },
-            { label: "Interviewing", value: stats.interviewing, icon: Clock, color: "purple" },
-            { label: "Offers", value: stats.offers, icon: Calendar, color: "green" },
-            { label: "Active Cool-offs", value: stats.activeCoolOffs, icon: Building2, color: "orange" },
-          ].map((stat, idx) => (
-            <div
-              key={stat.label}
-              className={`glass-effect rounded-xl p-6 shadow-sm hover:shadow-md transition-all animate-slide-up stagger-${idx + 1}`}
-            >
-              <div className="flex items-center justify-between mb-2">
-                <stat.icon className={`w-5 h-5 text-${stat.color}-600`} />
-                <span className="text-3xl font-bold text-slate-900">{stat.value}</span>
-              </div>
-              <p className="text-sm text-slate-600 font-medium">{stat.label}</p>
+  const renderOptionalCell = (app: JobApplication, column: OptionalColumn) => {
+    switch (column) {
+      case "source":
+        return app.source;
+      case "workMode":
+        return app.workMode && WORK_MODE_LABELS[app.workMode];
+      case "seniority":
+        return app.seniority && SENIORITY_LABELS[app.seniority];
+      case "salary":
+        return formatSalary(app);
+      case "postingUrl":
+        return app.postingUrl && (
+          <a
+            href={app.postingUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center text-slate-700 underline underline-offset-2 hover:text-slate-900"
+          >
+            <ExternalLink className="w-4 h-4 mr-1" />
+            Open
+          </a>
+        );
+    }
+  };
+
+  // Same rule the data layer applies when the form is saved
+  const previewCoolOffEnds = coolOffTerms && formData.appliedDate
+    ? addMonths(
+        coolOffTerms.startEvent === "rejection" && isCoolOffTrigger(stages, formStatus)
+          ? formData.rejectedDate || today()
+          : formData.appliedDate,
+        coolOffTerms.durationMonths
+      )
+    : null;
+
+  return (
+    <PageShell>
+      <PageHeader
+        title="Application Tracker"
+        description="Manage your job applications and cool-off periods"
+      >
+        <Button
+          onClick={() => setIsDialogOpen(true)}
+          className="shadow-lg hover:shadow-xl transition-shadow"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Application
+        </Button>
+      </PageHeader>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        {[
+          { label: "Total Applications", value: stats.total, icon: BriefcaseBusinessIcon, color: "blue" },
+          { label: "In Progress", value: stats.inProgress, icon: Clock, color: "purple" },
+          { label: "Offers", value: stats.offers, icon: Calendar, color: "green" },
+          { label: "Active Cool-offs", value: stats.activeCoolOffs, icon: Building2, color: "orange" },
+        ].map((stat, idx) => (
+          <div
+            key={stat.label}
+            className={`glass-effect rounded-xl p-6 shadow-sm hover:shadow-md transition-all animate-slide-up stagger-${idx + 1}`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <stat.icon className={`w-5 h-5 text-${stat.color}-600`} />
+              <span className="text-3xl font-bold text-slate-900">{stat.value}</span>
             </div>
-          ))}
-        </div>
+            <p className="text-sm text-slate-600 font-medium">{stat.label}</p>
+          </div>
+        ))}
+      </div>
 
-        {/* Table */}
-        <div className="glass-effect rounded-xl shadow-lg overflow-hidden animate-slide-up stagger-3">
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-slate-900 text-white">
+      {upcoming.length > 0 && (
+        <div className="glass-effect rounded-xl p-6 shadow-sm mb-8 animate-slide-up stagger-2">
+          <h2 className="text-lg font-semibold text-slate-900 mb-3">Upcoming Interviews</h2>
+          <ul className="divide-y divide-slate-200">
+            {upcoming.map(({ round, application }) => (
+              <li key={round.id}>
+                <button
+                  type="button"
+                  onClick={() => setViewingApp(application)}
+                  className="w-full flex items-center justify-between gap-4 py-2 text-left hover:bg-slate-50 transition-colors"
+                >
+                  <div>
+                    <p className="font-medium text-slate-900">
+                      {application.company} · {ROUND_TYPE_LABELS[round.roundType]}
+                    </p>
+                    <p className="text-xs text-slate-500">{application.jobTitle}</p>
+                  </div>
+                  <div className="text-right text-sm text-slate-700">
+                    <p>{new Date(round.scheduledAt).toLocaleString()}</p>
+                    {round.interviewers && (
+                      <p className="flex items-center justify-end text-xs text-slate-500">
+                        <Users className="w-3 h-3 mr-1" />
+                        {round.interviewers}
+                      </p>
+                    )}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ApplicationFilters query={query} onChange={updateQuery} />
+
+      <BulkActions
+        selectedIds={[...selectedIds]}
+        matchingCount={totalCount}
+        onSelectAllMatching={handleSelectAllMatching}
+        onClear={() => setSelection({ viewKey, ids: NO_SELECTION })}
+      />
+
+      {/* Table */}
+      <div className="glass-effect rounded-xl shadow-lg overflow-hidden animate-slide-up stagger-3">
+        {/* Infinite scroll keeps the table in a fixed-height box it can window */}
+        <div
+          className={listMode === "scroll" ? "overflow-auto" : "overflow-x-auto"}
+          style={listMode === "scroll" ? { maxHeight: SCROLL_VIEWPORT_HEIGHT } : undefined}
+          onScroll={listMode === "scroll" ? virtualRows.onScroll : undefined}
+        >
+          <table className="w-full">
+            <thead className={`bg-slate-900 text-white ${listMode === "scroll" ? "sticky top-0 z-10" : ""}`}>
+              <tr>
+                <th className="pl-6 py-4 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allShownSelected}
+                    onChange={toggleAllShown}
+                    aria-label="Select all shown"
+                  />
+                </th>
+                <SortableHeader field="company" label="Company" query={query} onChange={updateQuery} />
+                <SortableHeader field="jobTitle" label="Job Title" query={query} onChange={updateQuery} />
+                <SortableHeader field="location" label="Location" query={query} onChange={updateQuery} />
+                <SortableHeader field="status" label="Status" query={query} onChange={updateQuery} />
+                <SortableHeader field="appliedDate" label="Applied Date" query={query} onChange={updateQuery} />
+                <SortableHeader field="coolOffEnds" label="Cool-Off Ends" query={query} onChange={updateQuery} />
+                {shownColumns.map(column => (
+                  <th key={column} className="px-6 py-4 text-left text-sm font-semibold whitespace-nowrap">
+                    {OPTIONAL_COLUMNS[column]}
+                  </th>
+                ))}
+                <th className="px-6 py-4 text-left text-sm font-semibold">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {applications.length === 0 ? (
                 <tr>
-                  <th className="px-6 py-4 text-left text-sm font-semibold">Company</th>
-                  <th className="px-6 py-4 text-left text-sm font-semibold">Job Title</th>
-                  <th className="px-6 py-4 text-left text-sm font-semibold">Location</th>
-                  <th className="px-6 py-4 text-left text-sm font-semibold">Status</th>
-                  <th className="px-6 py-4 text-left text-sm font-semibold">Applied Date</th>
-                  <th className="px-6 py-4 text-left text-sm font-semibold">Cool-Off Ends</th>
-                  <th className="px-6 py-4 text-left text-sm font-semibold">Actions</th>
+                  <td colSpan={8 + shownColumns.length} className="px-6 py-12 text-center text-slate-500">
+                    <BriefcaseBusinessIcon className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+                    {hasActiveFilters(query) ? (
+                      <>
+                        <p className="text-lg font-medium">No matching applications</p>
+                        <p className="text-sm mt-1">Try a different search or clear the filters</p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-lg font-medium">No applications yet</p>
+                        <p className="text-sm mt-1">Click &quot;New Application&quot; to get started</p>
+                      </>
+                    )}
+                  </td>
                 </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-200">
-                {applications.length === 0 ? (
-                  <tr>
-                    <td colSpan={7} className="px-6 py-12 text-center text-slate-500">
-                      <BriefcaseBusinessIcon className="w-12 h-12 mx-auto mb-4 text-slate-300" />
-                      <p className="text-lg font-medium">No applications yet</p>
-                      <p className="text-sm mt-1">Click "New Application" to get started</p>
-                    </td>
-                  </tr>
+              ) : (
+                listMode === "scroll" ? (
+                  <>
+                    <tr aria-hidden style={{ height: virtualRows.paddingTop }} />
+                    {applications.slice(virtualRows.start, virtualRows.end).map((app, i) => (
+                      renderRow(app, virtualRows.measure(virtualRows.start + i))
+                    ))}
+                    <tr aria-hidden style={{ height: virtualRows.paddingBottom }} />
+                  </>
                 ) : (
-                  applications.map((app) => {
-                    const daysRemaining = getDaysRemaining(app.coolOffEnds);
-                    const isCoolOffActive = daysRemaining > 0;
-
-                    return (
-                      <tr key={app.id} className="hover:bg-slate-50 transition-colors">
-                        <td className="px-6 py-4">
-                          <div className="flex items-center">
-                            <Building2 className="w-4 h-4 mr-2 text-slate-400" />
-                            <span className="font-medium text-slate-900">{app.company}</span>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="flex items-center">
-                            <BriefcaseBusinessIcon className="w-4 h-4 mr-2 text-slate-400" />
-                            <span className="text-slate-700">{app.jobTitle}</span>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="flex items-center">
-                            <MapPin className="w-4 h-4 mr-2 text-slate-400" />
-                            <span className="text-slate-700">{app.location}</span>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <Select
-                            value={app.status}
-                            onValueChange={(value: ApplicationStatus) => handleStatusChange(app.id!, value)}
-                          >
-                            <SelectTrigger className="w-[140px]">
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="Applied">Applied</SelectItem>
-                              <SelectItem value="Interviewing">Interviewing</SelectItem>
-                              <SelectItem value="Offer">Offer</SelectItem>
-                              <SelectItem value="Rejected">Rejected</SelectItem>
-                              <SelectItem value="Withdrawn">Withdrawn</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </td>
-                        <td className="px-6 py-4 text-slate-700">
-                          {new Date(app.appliedDate).toLocaleDateString()}
-                        </td>
-                        <td className="px-6 py-4">
-                          <div>
-                            <div className="text-slate-700">
-                              {new Date(app.coolOffEnds).toLocaleDateString()}
-                            </div>
-                            <div className={`text-xs mt-1 ${isCoolOffActive ? 'text-orange-600' : 'text-green-600'}`}>
-                              {isCoolOffActive ? `${daysRemaining} days left` : 'Can reapply'}
-                            </div>
-                            <div className="text-xs text-slate-500">
-                              Starts: {app.coolOffStartType === "application" ? "On apply" : "On reject"}
-                            </div>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="flex items-center gap-2">
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleEdit(app)}
-                            >
-                              <Pencil className="w-4 h-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleDelete(app.id!)}
-                            >
-                              <Trash2 className="w-4 h-4 text-red-600" />
-                            </Button>
-                          </div>
-                        </td>
-                      </tr>
-                    );
-                  })
-                )}
-              </tbody>
-            </table>
-          </div>
+                  applications.map(app => renderRow(app))
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
 
-          {/* Pagination */}
-          {totalPages > 1 && (
-            <div className="bg-white border-t border-slate-200 px-6 py-4">
-              <div className="flex items-center justify-between">
-                <div className="text-sm text-slate-600">
-                  Showing {((currentPage - 1) * ITEMS_PER_PAGE) + 1} to {Math.min(currentPage * ITEMS_PER_PAGE, totalCount)} of {totalCount} applications
-                </div>
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                    disabled={currentPage === 1}
-                  >
-                    <ChevronLeft className="w-4 h-4 mr-1" />
-                    Previous
-                  </Button>
-
-                  <div className="flex items-center gap-1">
-                    {Array.from({ length: totalPages }, (_, i) => i + 1)
-                      .filter(page => {
-                        // Show first page, last page, current page, and pages around current
-                        return page === 1 ||
-                               page === totalPages ||
-                               Math.abs(page - currentPage) <= 1;
-                      })
-                      .map((page, idx, arr) => {
-                        // Add ellipsis if there's a gap
-                        const showEllipsisBefore = idx > 0 && page - arr[idx - 1] > 1;
-
-                        return (
-                          <div key={page} className="flex items-center">
-                            {showEllipsisBefore && (
-                              <span className="px-2 text-slate-400">...</span>
-                            )}
-                            <Button
-                              variant={currentPage === page ? "default" : "outline"}
-                              size="sm"
-                              onClick={() => setCurrentPage(page)}
-                              className="min-w-[40px]"
-                            >
-                              {page}
-                            </Button>
-                          </div>
-                        );
-                      })}
+        {/* Pagination */}
+        {totalCount > 0 && (
+          <div className="bg-white border-t border-slate-200 px-6 py-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="text-sm text-slate-600">
+                {listMode === "scroll"
+                  ? `Loaded ${applications.length} of ${totalCount} applications`
+                  : `Showing ${pageStart + 1} to ${pageStart + applications.length} of ${totalCount} applications`}
+              </div>
+              <div className="flex items-center gap-2">
+                <details className="relative">
+                  <summary className="cursor-pointer list-none rounded-md border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50">
+                    Columns
+                  </summary>
+                  <div className="absolute bottom-full right-0 mb-2 w-44 space-y-2 rounded-lg border border-slate-200 bg-white p-3 shadow-lg z-20">
+                    {(Object.keys(OPTIONAL_COLUMNS) as OptionalColumn[]).map(column => (
+                      <label key={column} className="flex items-center gap-2 text-sm text-slate-700">
+                        <input
+                          type="checkbox"
+                          checked={listSettings.columns.includes(column)}
+                          onChange={() => handleToggleColumn(column)}
+                        />
+                        {OPTIONAL_COLUMNS[column]}
+                      </label>
+                    ))}
                   </div>
-
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                    disabled={currentPage === totalPages}
-                  >
-                    Next
-                    <ChevronRight className="w-4 h-4 ml-1" />
-                  </Button>
-                </div>
+                </details>
+
+                <Select value={listMode} onValueChange={(value: ListMode) => handleListModeChange(value)}>
+                  <SelectTrigger size="sm" className="w-[150px]" aria-label="List mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pages">Pages</SelectItem>
+                    <SelectItem value="scroll">Infinite scroll</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {listMode === "pages" && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handlePreviousPage}
+                      disabled={pageStart === 0}
+                    >
+                      <ChevronLeft className="w-4 h-4 mr-1" />
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleNextPage}
+                      disabled={pageStart + applications.length >= totalCount}
+                    >
+                      Next
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </>
+                )}
               </div>
             </div>
-          )}
-        </div>
+          </div>
+        )}
       </div>
 
       {/* Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{editingId ? "Edit Application" : "New Application"}</DialogTitle>
             <DialogDescription>
@@ -528,30 +793,177 @@ export default function Home() {
               />
             </div>
 
+            <div>
+              <Label htmlFor="tags">Tags</Label>
+              <Input
+                id="tags"
+                value={formData.tags}
+                onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+                placeholder="e.g., remote, dream job"
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="source">Source</Label>
+              <Input
+                id="source"
+                list="source-suggestions"
+                value={formData.source}
+                onChange={(e) => setFormData({ ...formData, source: e.target.value })}
+                placeholder="e.g., LinkedIn"
+                className="mt-1"
+              />
+              <datalist id="source-suggestions">
+                {COMMON_SOURCES.map(source => <option key={source} value={source} />)}
+              </datalist>
+            </div>
+
+            <div>
+              <Label htmlFor="postingUrl">Posting URL</Label>
+              <Input
+                id="postingUrl"
+                type="url"
+                value={formData.postingUrl}
+                onChange={(e) => setFormData({ ...formData, postingUrl: e.target.value })}
+                placeholder="https://"
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="salaryMin">Salary Range</Label>
+              <div className="flex items-center gap-2 mt-1">
+                <Input
+                  id="salaryMin"
+                  type="number"
+                  min={0}
+                  value={formData.salaryMin}
+                  onChange={(e) => setFormData({ ...formData, salaryMin: e.target.value })}
+                  placeholder="From"
+                />
+                <span className="text-sm text-slate-500">to</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={formData.salaryMax}
+                  onChange={(e) => setFormData({ ...formData, salaryMax: e.target.value })}
+                  placeholder="To"
+                  aria-label="Salary up to"
+                />
+                <Input
+                  list="currency-suggestions"
+                  value={formData.salaryCurrency}
+                  onChange={(e) => setFormData({ ...formData, salaryCurrency: e.target.value.toUpperCase() })}
+                  placeholder="USD"
+                  maxLength={3}
+                  aria-label="Currency"
+                  className="w-24"
+                />
+                <datalist id="currency-suggestions">
+                  {COMMON_CURRENCIES.map(currency => <option key={currency} value={currency} />)}
+                </datalist>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="workMode">Work Mode</Label>
+                <Select
+                  value={formData.workMode || SELECT_NONE}
+                  onValueChange={(value) => setFormData({ ...formData, workMode: value === SELECT_NONE ? "" : value as WorkMode })}
+                >
+                  <SelectTrigger id="workMode" className="mt-1 w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SELECT_NONE}>Not set</SelectItem>
+                    {(Object.keys(WORK_MODE_LABELS) as WorkMode[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>{WORK_MODE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="seniority">Seniority</Label>
+                <Select
+                  value={formData.seniority || SELECT_NONE}
+                  onValueChange={(value) => setFormData({ ...formData, seniority: value === SELECT_NONE ? "" : value as Seniority })}
+                >
+                  <SelectTrigger id="seniority" className="mt-1 w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SELECT_NONE}>Not set</SelectItem>
+                    {(Object.keys(SENIORITY_LABELS) as Seniority[]).map(level => (
+                      <SelectItem key={level} value={level}>{SENIORITY_LABELS[level]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {formData.company.trim() && (
+              <EligibilityPanel
+                candidate={{ company: formData.company, jobTitle: formData.jobTitle, location: formData.location }}
+                excludeId={editingId}
+              />
+            )}
+
+            <div>
+              <Label htmlFor="appliedDate">Applied Date</Label>
+              <Input
+                id="appliedDate"
+                type="date"
+                value={formData.appliedDate}
+                max={localToday()}
+                onChange={(e) => setFormData({ ...formData, appliedDate: e.target.value })}
+                required
+                className="mt-1"
+              />
+            </div>
+
             <div>
               <Label htmlFor="status">Status</Label>
               <Select
-                value={formData.status}
+                value={formStatus}
                 onValueChange={(value: ApplicationStatus) => setFormData({ ...formData, status: value })}
               >
                 <SelectTrigger className="mt-1">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Applied">Applied</SelectItem>
-                  <SelectItem value="Interviewing">Interviewing</SelectItem>
-                  <SelectItem value="Offer">Offer</SelectItem>
-                  <SelectItem value="Rejected">Rejected</SelectItem>
-                  <SelectItem value="Withdrawn">Withdrawn</SelectItem>
+                  {stages.map(({ name }) => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
+            {isCoolOffTrigger(stages, formStatus) && (
+              <div>
+                <Label htmlFor="rejectedDate">{formStatus} Date</Label>
+                <Input
+                  id="rejectedDate"
+                  type="date"
+                  value={formData.rejectedDate}
+                  min={formData.appliedDate}
+                  max={localToday()}
+                  onChange={(e) => setFormData({ ...formData, rejectedDate: e.target.value })}
+                  className="mt-1"
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                  Leave empty if it happened today
+                </p>
+              </div>
+            )}
+
             <div>
               <Label htmlFor="coolOffStartType">Cool-Off Period Starts</Label>
               <Select
-                value={formData.coolOffStartType}
+                value={coolOffTerms?.policy ? coolOffTerms.policy.startEvent : formData.coolOffStartType}
                 onValueChange={(value: CoolOffStartType) => setFormData({ ...formData, coolOffStartType: value })}
+                disabled={!!coolOffTerms?.policy}
               >
                 <SelectTrigger className="mt-1">
                   <SelectValue />
@@ -562,10 +974,24 @@ export default function Home() {
                 </SelectContent>
               </Select>
               <p className="text-xs text-slate-500 mt-1">
-                6 months from the selected event
+                {coolOffTerms?.policy
+                  ? `${coolOffTerms.policy.company} policy: ${coolOffTerms.durationMonths} months, ${COOL_OFF_SCOPE_LABELS[coolOffTerms.scope].toLowerCase()}`
+                  : `${DEFAULT_COOL_OFF_MONTHS} months from the selected event`}
+                {previewCoolOffEnds && ` · ends ${new Date(previewCoolOffEnds).toLocaleDateString()}`}
               </p>
             </div>
 
+            <div>
+              <Label>Contacts</Label>
+              <div className="mt-1">
+                <ContactPicker
+                  company={formData.company}
+                  value={formData.contactIds}
+                  onChange={(contactIds) => setFormData({ ...formData, contactIds })}
+                />
+              </div>
+            </div>
+
             <div className="flex justify-end gap-3 mt-6">
               <Button type="button" variant="outline" onClick={resetForm}>
                 Cancel
@@ -577,6 +1003,11 @@ export default function Home() {
           </form>
         </DialogContent>
       </Dialog>
-    </div>
+
+      <ApplicationDetailDialog
+        application={viewingApp}
+        onClose={() => setViewingApp(null)}
+      />
+    </PageShell>
   );
 }
@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Plus, Pencil, Trash2, Building2, ShieldCheck } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PageHeader, PageShell } from '@/components/page-shell';
+import { type CoolOffPolicy, type CoolOffScope, type CoolOffStartType } from '@/lib/db';
+import {
+  COOL_OFF_DURATIONS,
+  COOL_OFF_SCOPE_LABELS,
+  DEFAULT_COOL_OFF_MONTHS,
+  createCoolOffPolicy,
+  deleteCoolOffPolicy,
+  listCoolOffPolicies,
+  updateCoolOffPolicy,
+  type CoolOffPolicyInput,
+} from '@/lib/cool-off-policies';
+
+const EMPTY_POLICY: CoolOffPolicyInput = {
+  company: "",
+  roleFamily: "",
+  durationMonths: DEFAULT_COOL_OFF_MONTHS,
+  startEvent: "application",
+  scope: "exact-role",
+};
+
+export default function PoliciesPage() {
+  const policies = useLiveQuery(listCoolOffPolicies, [], []);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<CoolOffPolicyInput>(EMPTY_POLICY);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (editingId) {
+        await updateCoolOffPolicy(editingId, formData);
+      } else {
+        await createCoolOffPolicy(formData);
+      }
+
+      resetForm();
+    } catch (error) {
+      console.error('Error saving policy:', error);
+      alert('Failed to save policy');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(EMPTY_POLICY);
+    setEditingId(null);
+    setIsDialogOpen(false);
+  };
+
+  const handleEdit = (policy: CoolOffPolicy) => {
+    setFormData({
+      company: policy.company,
+      roleFamily: policy.roleFamily,
+      durationMonths: policy.durationMonths,
+      startEvent: policy.startEvent,
+      scope: policy.scope,
+    });
+    setEditingId(policy.id!);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (confirm("Are you sure you want to delete this policy?")) {
+      try {
+        await deleteCoolOffPolicy(id);
+      } catch (error) {
+        console.error('Error deleting policy:', error);
+      }
+    }
+  };
+
+  return (
+    <PageShell>
+      <PageHeader
+        title="Cool-off Policies"
+        description={`How long each company makes you wait before reapplying. Companies without a policy use ${DEFAULT_COOL_OFF_MONTHS} months.`}
+      >
+        <Button
+          onClick={() => setIsDialogOpen(true)}
+          className="shadow-lg hover:shadow-xl transition-shadow"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Policy
+        </Button>
+      </PageHeader>
+
+      <div className="glass-effect rounded-xl shadow-lg overflow-hidden animate-slide-up stagger-1">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-900 text-white">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Company</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Role Family</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Duration</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Starts</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Blocks</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {policies.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-slate-500">
+                    <ShieldCheck className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+                    <p className="text-lg font-medium">No policies yet</p>
+                    <p className="text-sm mt-1">Every company uses the {DEFAULT_COOL_OFF_MONTHS}-month default</p>
+                  </td>
+                </tr>
+              ) : (
+                policies.map((policy) => (
+                  <tr key={policy.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center">
+                        <Building2 className="w-4 h-4 mr-2 text-slate-400" />
+                        <span className="font-medium text-slate-900">{policy.company}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-slate-700">{policy.roleFamily || "All roles"}</td>
+                    <td className="px-6 py-4 text-slate-700">{policy.durationMonths} months</td>
+                    <td className="px-6 py-4 text-slate-700">
+                      {policy.startEvent === "application" ? "On apply" : "On reject"}
+                    </td>
+                    <td className="px-6 py-4 text-slate-700">{COOL_OFF_SCOPE_LABELS[policy.scope]}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleEdit(policy)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(policy.id!)}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => open ? setIsDialogOpen(true) : resetForm()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Policy" : "New Policy"}</DialogTitle>
+            <DialogDescription>
+              Cool-offs for matching applications are computed from this policy
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <div>
+              <Label htmlFor="company">Company</Label>
+              <Input
+                id="company"
+                value={formData.company}
+                onChange={(e) => setFormData({ ...formData, company: e.target.value })}
+                placeholder="e.g., Stripe"
+                required
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="roleFamily">Role Family</Label>
+              <Input
+                id="roleFamily"
+                value={formData.roleFamily}
+                onChange={(e) => setFormData({ ...formData, roleFamily: e.target.value })}
+                placeholder="e.g., Engineer (leave empty for all roles)"
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="durationMonths">Duration</Label>
+              <Select
+                value={String(formData.durationMonths)}
+                onValueChange={(value) => setFormData({ ...formData, durationMonths: Number(value) })}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COOL_OFF_DURATIONS.map(months => (
+                    <SelectItem key={months} value={String(months)}>{months} months</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="startEvent">Cool-Off Period Starts</Label>
+              <Select
+                value={formData.startEvent}
+                onValueChange={(value: CoolOffStartType) => setFormData({ ...formData, startEvent: value })}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="application">After Application</SelectItem>
+                  <SelectItem value="rejection">After Rejection</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="scope">Blocks</Label>
+              <Select
+                value={formData.scope}
+                onValueChange={(value: CoolOffScope) => setFormData({ ...formData, scope: value })}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(COOL_OFF_SCOPE_LABELS) as CoolOffScope[]).map(scope => (
+                    <SelectItem key={scope} value={scope}>{COOL_OFF_SCOPE_LABELS[scope]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex justify-end gap-3 mt-6">
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingId ? "Update" : "Add"} Policy
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </PageShell>
+  );
+}
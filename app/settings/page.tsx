@@ -0,0 +1,265 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Bell, BellOff, AlertCircle } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { PageHeader, PageShell } from '@/components/page-shell';
+import { PipelineEditor } from '@/components/pipeline-editor';
+import {
+  getReminderSettings,
+  saveReminderSettings,
+  type ReminderSettings,
+} from '@/lib/reminders';
+import {
+  notificationPermission,
+  notificationsSupported,
+  requestNotificationPermission,
+  showNotification,
+} from '@/lib/notifications';
+import { getTrashSettings, saveTrashSettings, type TrashSettings } from '@/lib/trash';
+import { today } from '@/lib/dates';
+
+export default function SettingsPage() {
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [trashSettings, setTrashSettings] = useState<TrashSettings | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission>("default");
+  const [supported, setSupported] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getReminderSettings(), getTrashSettings()])
+      .then(([result, trash]) => {
+        if (cancelled) return;
+        setSettings(result);
+        setTrashSettings(trash);
+        setSupported(notificationsSupported());
+        setPermission(notificationPermission());
+      })
+      .catch(error => console.error('Error loading settings:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Every change is saved straight away; the reminder runner picks it up on
+  // its next check
+  const updateSettings = async (changes: Partial<ReminderSettings>) => {
+    if (!settings) return;
+
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    try {
+      await saveReminderSettings(next);
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      alert('Failed to save settings');
+    }
+  };
+
+  const updateTrashSettings = async (changes: Partial<TrashSettings>) => {
+    if (!trashSettings) return;
+
+    const next = { ...trashSettings, ...changes };
+    setTrashSettings(next);
+    try {
+      await saveTrashSettings(next);
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      alert('Failed to save settings');
+    }
+  };
+
+  const handleToggle = async () => {
+    if (!settings) return;
+
+    if (settings.enabled) {
+      await updateSettings({ enabled: false });
+      return;
+    }
+
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result === "granted") {
+      await updateSettings({ enabled: true, enabledOn: today() });
+    }
+  };
+
+  const handleTest = async () => {
+    try {
+      await showNotification("Reminders are on", {
+        body: "This is what a reminder looks like.",
+        tag: "test",
+        url: "/settings",
+      });
+    } catch (error) {
+      console.error('Error showing notification:', error);
+      alert('Failed to show notification');
+    }
+  };
+
+  if (!settings || !trashSettings) return <PageShell><PageHeader title="Settings" description="" /></PageShell>;
+
+  const isOn = settings.enabled && permission === "granted";
+
+  return (
+    <PageShell>
+      <PageHeader
+        title="Settings"
+        description="Choose the stages applications move through, what the app reminds you about and how long it keeps deleted applications"
+      />
+
+      <div className="glass-effect rounded-xl p-6 shadow-lg max-w-2xl animate-slide-up stagger-1">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Pipeline</h2>
+        <p className="text-sm text-slate-600 mb-6">
+          The stages an application moves through, in order. Open stages are still in progress and
+          count toward follow-ups; positive ones count as offers and negative ones as rejections.
+          Moving into a stage that starts the cool-off restarts it for companies that count from the rejection.
+        </p>
+        <PipelineEditor />
+      </div>
+
+      <div className="glass-effect rounded-xl p-6 shadow-lg max-w-2xl mt-6 animate-slide-up stagger-2">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900 mb-2">Reminders</h2>
+            <p className="text-sm text-slate-600">
+              Browser notifications, checked every few minutes while the app is open.
+            </p>
+          </div>
+          <Button
+            onClick={handleToggle}
+            variant={isOn ? "outline" : "default"}
+            disabled={!supported || permission === "denied"}
+          >
+            {isOn ? <BellOff className="w-4 h-4 mr-2" /> : <Bell className="w-4 h-4 mr-2" />}
+            {isOn ? "Turn Off" : "Turn On"}
+          </Button>
+        </div>
+
+        {(!supported || permission === "denied") && (
+          <div className="flex items-start text-sm text-red-700 mb-6">
+            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            {supported
+              ? "Notifications are blocked for this site. Allow them in your browser's site settings, then reload."
+              : "This browser doesn't support notifications."}
+          </div>
+        )}
+
+        <div className={`space-y-5 ${isOn ? "" : "opacity-50 pointer-events-none"}`}>
+          <label className="flex items-start gap-3 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={settings.coolOffEnded}
+              onChange={(e) => updateSettings({ coolOffEnded: e.target.checked })}
+              className="mt-1"
+            />
+            <span>
+              <span className="font-medium text-slate-900">Cool-off ended</span>
+              <span className="block text-slate-500">When a company you applied to accepts applications from you again</span>
+            </span>
+          </label>
+
+          <div>
+            <label className="flex items-start gap-3 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={settings.followUp}
+                onChange={(e) => updateSettings({ followUp: e.target.checked })}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium text-slate-900">Follow-ups</span>
+                <span className="block text-slate-500">When an open application has had no update for a while</span>
+              </span>
+            </label>
+            {settings.followUp && (
+              <div className="ml-7 mt-2">
+                <Label htmlFor="followUpDays">Days without an update</Label>
+                <CountInput
+                  id="followUpDays"
+                  value={settings.followUpDays}
+                  onSave={(followUpDays) => updateSettings({ followUpDays })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="flex items-start gap-3 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={settings.interviews}
+                onChange={(e) => updateSettings({ interviews: e.target.checked })}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium text-slate-900">Interviews</span>
+                <span className="block text-slate-500">Ahead of each scheduled interview round</span>
+              </span>
+            </label>
+            {settings.interviews && (
+              <div className="ml-7 mt-2">
+                <Label htmlFor="interviewLeadHours">Hours before</Label>
+                <CountInput
+                  id="interviewLeadHours"
+                  value={settings.interviewLeadHours}
+                  onSave={(interviewLeadHours) => updateSettings({ interviewLeadHours })}
+                />
+              </div>
+            )}
+          </div>
+
+          <Button variant="outline" onClick={handleTest}>
+            Send Test Notification
+          </Button>
+        </div>
+      </div>
+
+      <div className="glass-effect rounded-xl p-6 shadow-lg max-w-2xl mt-6 animate-slide-up stagger-3">
+        <h2 className="text-2xl font-bold text-slate-900 mb-2">Trash</h2>
+        <p className="text-sm text-slate-600 mb-6">
+          Deleted applications wait in the trash, where they can be restored, before they are removed for good.
+        </p>
+        <Label htmlFor="retentionDays">Days to keep deleted applications</Label>
+        <CountInput
+          id="retentionDays"
+          value={trashSettings.retentionDays}
+          onSave={(retentionDays) => updateTrashSettings({ retentionDays })}
+        />
+      </div>
+    </PageShell>
+  );
+}
+
+// A whole number of at least 1, saved when the field loses focus or Enter is
+// pressed, so clearing it to type a new number doesn't save anything. Anything
+// else puts the saved value back.
+function CountInput({ id, value, onSave }: { id: string; value: number; onSave: (value: number) => void }) {
+  const [draft, setDraft] = useState(String(value));
+
+  const commit = () => {
+    const count = Number(draft);
+    if (!Number.isInteger(count) || count < 1) {
+      setDraft(String(value));
+    } else if (count !== value) {
+      onSave(count);
+    }
+  };
+
+  return (
+    <Input
+      id={id}
+      type="number"
+      min={1}
+      step={1}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+      className="mt-1 w-32"
+    />
+  );
+}
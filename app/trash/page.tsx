@@ -0,0 +1,134 @@
+"use client";
+
+import { useLiveQuery } from "dexie-react-hooks";
+import { Trash2, RotateCcw, Building2, BriefcaseBusinessIcon } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { PageHeader, PageShell } from '@/components/page-shell';
+import {
+  DEFAULT_TRASH_SETTINGS,
+  emptyTrash,
+  getTrashSettings,
+  listTrash,
+  purgeDate,
+  purgeTrash,
+  restoreApplications,
+} from '@/lib/trash';
+
+export default function TrashPage() {
+  const entries = useLiveQuery(listTrash, [], []);
+  const settings = useLiveQuery(getTrashSettings, [], DEFAULT_TRASH_SETTINGS);
+
+  const handleRestore = async (id: number) => {
+    try {
+      await restoreApplications([id]);
+    } catch (error) {
+      console.error('Error restoring application:', error);
+      alert('Failed to restore application');
+    }
+  };
+
+  const handlePurge = async (id: number) => {
+    if (confirm("Delete this application for good? This can't be undone.")) {
+      try {
+        await purgeTrash([id]);
+      } catch (error) {
+        console.error('Error purging application:', error);
+      }
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (confirm(`Delete all ${entries.length} applications in the trash for good? This can't be undone.`)) {
+      try {
+        await emptyTrash();
+      } catch (error) {
+        console.error('Error emptying trash:', error);
+      }
+    }
+  };
+
+  return (
+    <PageShell>
+      <PageHeader
+        title="Trash"
+        description={`Deleted applications are kept for ${settings.retentionDays} days, cool-offs included, then removed for good`}
+      >
+        <Button
+          variant="outline"
+          onClick={handleEmpty}
+          disabled={entries.length === 0}
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          Empty Trash
+        </Button>
+      </PageHeader>
+
+      <div className="glass-effect rounded-xl shadow-lg overflow-hidden animate-slide-up stagger-1">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-900 text-white">
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Company</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Job Title</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Status</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Deleted</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Removed For Good</th>
+                <th className="px-6 py-4 text-left text-sm font-semibold">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {entries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-slate-500">
+                    <Trash2 className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+                    <p className="text-lg font-medium">The trash is empty</p>
+                  </td>
+                </tr>
+              ) : (
+                entries.map(({ id, deletedAt, application }) => (
+                  <tr key={id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <div className="flex items-center">
+                        <Building2 className="w-4 h-4 mr-2 text-slate-400" />
+                        <span className="font-medium text-slate-900">{application.company}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center">
+                        <BriefcaseBusinessIcon className="w-4 h-4 mr-2 text-slate-400" />
+                        <span className="text-slate-700">{application.jobTitle}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-slate-700">{application.status}</td>
+                    <td className="px-6 py-4 text-slate-700">{new Date(deletedAt).toLocaleDateString()}</td>
+                    <td className="px-6 py-4 text-slate-700">{purgeDate(deletedAt, settings).toLocaleDateString()}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore(id!)}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Restore
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handlePurge(id!)}
+                          aria-label="Delete for good"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </PageShell>
+  );
+}
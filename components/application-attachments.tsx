@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Download, Eye, FileText, Trash2 } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { type Attachment, type AttachmentKind } from '@/lib/db';
+import {
+  ATTACHMENT_KIND_LABELS,
+  addAttachment,
+  deleteAttachment,
+  formatFileSize,
+  isViewable,
+  listAttachments,
+} from '@/lib/attachments';
+import { downloadFile } from '@/lib/download';
+
+export function ApplicationAttachments({ applicationId }: { applicationId: number }) {
+  const attachments = useLiveQuery(() => listAttachments(applicationId), [applicationId], []);
+  const [kind, setKind] = useState<AttachmentKind>("resume");
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const files = Array.from(input.files ?? []);
+
+    try {
+      for (const file of files) {
+        await addAttachment(applicationId, file, kind);
+      }
+    } catch (error) {
+      console.error('Error saving attachment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save attachment');
+    }
+    input.value = "";
+  };
+
+  // Rewrapped so the tab gets the checked type, not whatever the stored blob says
+  const handleView = (attachment: Attachment) => {
+    const url = URL.createObjectURL(new Blob([attachment.blob], { type: attachment.type }));
+    window.open(url, "_blank", "noopener");
+    // Long enough for the new tab to have loaded it
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (confirm("Are you sure you want to delete this attachment?")) {
+      try {
+        await deleteAttachment(id);
+      } catch (error) {
+        console.error('Error deleting attachment:', error);
+      }
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <h3 className="font-semibold text-slate-900 mb-3">Attachments</h3>
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-slate-500 mb-3">No files attached</p>
+      ) : (
+        <ul className="space-y-2 mb-3">
+          {attachments.map(attachment => (
+            <li
+              key={attachment.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-slate-200 px-3 py-2 text-sm"
+            >
+              <div className="flex items-center min-w-0">
+                <FileText className="w-4 h-4 mr-2 text-slate-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-900 truncate">{attachment.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {ATTACHMENT_KIND_LABELS[attachment.kind]} · {formatFileSize(attachment.size)}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center">
+                {isViewable(attachment.type) && (
+                  <Button variant="ghost" size="icon" onClick={() => handleView(attachment)} aria-label="View">
+                    <Eye className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => downloadFile(attachment.name, attachment.blob, attachment.type)}
+                  aria-label="Download"
+                >
+                  <Download className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(attachment.id!)} aria-label="Delete">
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Select value={kind} onValueChange={(value: AttachmentKind) => setKind(value)}>
+          <SelectTrigger className="w-[180px]" aria-label="Attachment kind">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ATTACHMENT_KIND_LABELS) as AttachmentKind[]).map(value => (
+              <SelectItem key={value} value={value}>{ATTACHMENT_KIND_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input type="file" multiple onChange={handleFileChange} aria-label="Attach files" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { MapPin, BriefcaseBusinessIcon, ExternalLink, Wallet } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { InterviewRounds } from '@/components/interview-rounds';
+import { ApplicationAttachments } from '@/components/application-attachments';
+import { type JobApplication, type StatusEvent } from '@/lib/db';
+import { listStatusEvents } from '@/lib/status-history';
+import { SENIORITY_LABELS, WORK_MODE_LABELS, formatSalary, listAttemptHistory, moveStatusEvent, updateApplicationNotes } from '@/lib/applications';
+import { daysBetween, localToday, today } from '@/lib/dates';
+import { DEFAULT_PIPELINE, initialStage, listStages } from '@/lib/pipeline';
+
+export function ApplicationDetailDialog({
+  application,
+  onClose,
+}: {
+  application: JobApplication | null;
+  onClose: () => void;
+}) {
+  const applicationId = application?.id;
+  const events = useLiveQuery(
+    () => applicationId === undefined ? [] : listStatusEvents(applicationId),
+    [applicationId],
+    []
+  );
+  const stages = useLiveQuery(listStages, [], DEFAULT_PIPELINE.stages);
+  const attempts = useLiveQuery(
+    () => applicationId === undefined ? [] : listAttemptHistory(applicationId),
+    [applicationId],
+    []
+  );
+
+  const handleDateChange = async (event: StatusEvent, date: string) => {
+    if (!date) return;
+
+    try {
+      await moveStatusEvent(event, date);
+    } catch (error) {
+      console.error('Error updating status date:', error);
+    }
+  };
+
+  // Whichever of the optional details were filled in
+  const details = application
+    ? [
+        application.workMode && WORK_MODE_LABELS[application.workMode],
+        application.seniority && SENIORITY_LABELS[application.seniority],
+        formatSalary(application),
+        application.source,
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <Dialog open={!!application} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        {application && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{application.company}</DialogTitle>
+              <DialogDescription asChild>
+                <div className="space-y-1">
+                  <div className="flex items-center">
+                    <BriefcaseBusinessIcon className="w-4 h-4 mr-2 text-slate-400" />
+                    {application.jobTitle}
+                  </div>
+                  <div className="flex items-center">
+                    <MapPin className="w-4 h-4 mr-2 text-slate-400" />
+                    {application.location}
+                  </div>
+                  {details.length > 0 && (
+                    <div className="flex items-center">
+                      <Wallet className="w-4 h-4 mr-2 text-slate-400" />
+                      {details.join(" · ")}
+                    </div>
+                  )}
+                  {application.postingUrl && (
+                    <a
+                      href={application.postingUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center underline underline-offset-2 hover:text-slate-900"
+                    >
+                      <ExternalLink className="w-4 h-4 mr-2 text-slate-400" />
+                      Job posting
+                    </a>
+                  )}
+                </div>
+              </DialogDescription>
+            </DialogHeader>
+
+            {attempts.length > 1 && (
+              <div className="mt-4">
+                <h3 className="font-semibold text-slate-900 mb-3">Attempts</h3>
+                <ol className="space-y-2">
+                  {attempts.map(({ application: attempt, statusDate }) => (
+                    <li
+                      key={attempt.id}
+                      className={`flex items-center justify-between rounded-lg border px-3 py-2 text-sm ${attempt.id === application.id ? 'border-slate-900' : 'border-slate-200'}`}
+                    >
+                      <div>
+                        <p className="font-medium text-slate-900">Attempt {attempt.attempt}</p>
+                        <p className="text-xs text-slate-500">
+                          Applied {new Date(attempt.appliedDate).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <p className="text-slate-700">
+                        {attempt.status === initialStage(stages)
+                          ? attempt.status
+                          : `${attempt.status} on ${new Date(statusDate).toLocaleDateString()}`}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            <div className="mt-4">
+              <h3 className="font-semibold text-slate-900 mb-3">Status History</h3>
+              {events.length === 0 ? (
+                <p className="text-sm text-slate-500">No status changes recorded</p>
+              ) : (
+                <ol className="relative border-l border-slate-200 ml-2 space-y-5">
+                  {events.map((event, idx) => {
+                    const nextDate = idx < events.length - 1 ? events[idx + 1].date : today();
+                    const daysInStage = daysBetween(event.date, nextDate);
+                    const isCurrent = idx === events.length - 1;
+
+                    return (
+                      <li key={event.id} className="ml-4">
+                        <span
+                          className={`absolute -left-1.5 mt-2 w-3 h-3 rounded-full border-2 border-white ${isCurrent ? 'bg-slate-900' : 'bg-slate-400'}`}
+                        />
+                        <div className="flex items-center justify-between gap-3">
+                          <div>
+                            <p className="font-medium text-slate-900">{event.status}</p>
+                            <p className="text-xs text-slate-500">
+                              {daysInStage} {daysInStage === 1 ? "day" : "days"}{isCurrent ? " so far" : " in stage"}
+                            </p>
+                          </div>
+                          <Input
+                            type="date"
+                            value={event.date}
+                            max={localToday()}
+                            onChange={(e) => handleDateChange(event, e.target.value)}
+                            className="w-[160px]"
+                            aria-label={`${event.status} date`}
+                          />
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </div>
+
+            <InterviewRounds key={application.id} application={application} />
+
+            <ApplicationNotes key={`notes-${application.id}`} application={application} />
+
+            <ApplicationAttachments applicationId={application.id!} />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Keyed by application, so the draft starts from the saved notes each time
+function ApplicationNotes({ application }: { application: JobApplication }) {
+  const [notes, setNotes] = useState(application.notes ?? "");
+  const [saved, setSaved] = useState(application.notes ?? "");
+
+  // Saved when the field loses focus rather than on every keystroke
+  const handleBlur = async () => {
+    if (notes === saved) return;
+
+    try {
+      await updateApplicationNotes(application.id!, notes);
+      setSaved(notes);
+    } catch (error) {
+      console.error('Error saving notes:', error);
+      alert('Failed to save notes');
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <h3 className="font-semibold text-slate-900 mb-3">Notes</h3>
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={handleBlur}
+        rows={4}
+        placeholder="Resume version sent, who you spoke to, anything worth remembering"
+        aria-label="Notes"
+        className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+      />
+    </div>
+  );
+}
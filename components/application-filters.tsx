@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { ArrowDown, ArrowUp, ArrowUpDown, Search, X } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DEFAULT_QUERY,
+  hasActiveFilters,
+  type ApplicationQuery,
+  type CoolOffFilter,
+  type SortField,
+} from '@/lib/application-query';
+import { DEFAULT_PIPELINE, listStages } from '@/lib/pipeline';
+import { COMMON_SOURCES, SENIORITY_LABELS, WORK_MODE_LABELS } from '@/lib/applications';
+import { type Seniority, type WorkMode } from '@/lib/db';
+import { SELECT_NONE } from '@/lib/select';
+
+const COMMIT_DELAY_MS = 300;
+
+export function ApplicationFilters({
+  query,
+  onChange,
+}: {
+  query: ApplicationQuery;
+  onChange: (changes: Partial<ApplicationQuery>) => void;
+}) {
+  const stages = useLiveQuery(listStages, [], DEFAULT_PIPELINE.stages);
+  // Text fields keep their own value while typing, so clearing the filters
+  // starts them afresh
+  const [resetCount, setResetCount] = useState(0);
+
+  const handleClear = () => {
+    setResetCount(count => count + 1);
+    onChange({ ...DEFAULT_QUERY, sort: query.sort, direction: query.direction });
+  };
+
+  return (
+    <div className="glass-effect rounded-xl p-4 shadow-sm mb-6 animate-slide-up stagger-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+        <div className="relative lg:col-span-2">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <DebouncedInput
+            key={`search-${resetCount}`}
+            value={query.search}
+            onCommit={(value) => onChange({ search: value })}
+            placeholder="Search company, title or location"
+            className="pl-9 bg-white"
+            aria-label="Search"
+          />
+        </div>
+        <Select
+          value={query.status ?? SELECT_NONE}
+          onValueChange={(value) => onChange({ status: value === SELECT_NONE ? null : value })}
+        >
+          <SelectTrigger className="w-full bg-white" aria-label="Status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SELECT_NONE}>Any status</SelectItem>
+            {stages.map(({ name }) => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={query.coolOff ?? SELECT_NONE}
+          onValueChange={(value) => onChange({ coolOff: value === SELECT_NONE ? null : value as CoolOffFilter })}
+        >
+          <SelectTrigger className="w-full bg-white" aria-label="Cool-off">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SELECT_NONE}>Any cool-off</SelectItem>
+            <SelectItem value="active">Cool-off active</SelectItem>
+            <SelectItem value="eligible">Can reapply</SelectItem>
+          </SelectContent>
+        </Select>
+        <DebouncedInput
+          key={`company-${resetCount}`}
+          value={query.company}
+          onCommit={(value) => onChange({ company: value })}
+          placeholder="Company"
+          className="bg-white"
+          aria-label="Company"
+        />
+        <DebouncedInput
+          key={`location-${resetCount}`}
+          value={query.location}
+          onCommit={(value) => onChange({ location: value })}
+          placeholder="Location"
+          className="bg-white"
+          aria-label="Location"
+        />
+        <div className="flex items-center gap-2 lg:col-span-2">
+          <Input
+            type="date"
+            value={query.appliedFrom}
+            max={query.appliedTo || undefined}
+            onChange={(e) => onChange({ appliedFrom: e.target.value })}
+            className="bg-white"
+            aria-label="Applied from"
+          />
+          <span className="text-sm text-slate-500">to</span>
+          <Input
+            type="date"
+            value={query.appliedTo}
+            min={query.appliedFrom || undefined}
+            onChange={(e) => onChange({ appliedTo: e.target.value })}
+            className="bg-white"
+            aria-label="Applied to"
+          />
+          {hasActiveFilters(query) && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleClear}
+              aria-label="Clear filters"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+        <Select
+          value={query.workMode ?? SELECT_NONE}
+          onValueChange={(value) => onChange({ workMode: value === SELECT_NONE ? null : value as WorkMode })}
+        >
+          <SelectTrigger className="w-full bg-white" aria-label="Work mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SELECT_NONE}>Any work mode</SelectItem>
+            {(Object.keys(WORK_MODE_LABELS) as WorkMode[]).map(mode => (
+              <SelectItem key={mode} value={mode}>{WORK_MODE_LABELS[mode]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={query.seniority ?? SELECT_NONE}
+          onValueChange={(value) => onChange({ seniority: value === SELECT_NONE ? null : value as Seniority })}
+        >
+          <SelectTrigger className="w-full bg-white" aria-label="Seniority">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SELECT_NONE}>Any seniority</SelectItem>
+            {(Object.keys(SENIORITY_LABELS) as Seniority[]).map(level => (
+              <SelectItem key={level} value={level}>{SENIORITY_LABELS[level]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DebouncedInput
+          key={`source-${resetCount}`}
+          value={query.source}
+          onCommit={(value) => onChange({ source: value })}
+          placeholder="Source"
+          list="source-filter-suggestions"
+          className="bg-white"
+          aria-label="Source"
+        />
+        <datalist id="source-filter-suggestions">
+          {COMMON_SOURCES.map(source => <option key={source} value={source} />)}
+        </datalist>
+        <DebouncedInput
+          type="number"
+          min={0}
+          step={1000}
+          key={`salary-${resetCount}`}
+          value={query.minSalary}
+          onCommit={(value) => onChange({ minSalary: value.replace(/\D/g, "") })}
+          placeholder="Salary at least"
+          className="bg-white"
+          aria-label="Salary at least"
+        />
+      </div>
+    </div>
+  );
+}
+
+export function SortableHeader({
+  field,
+  label,
+  query,
+  onChange,
+}: {
+  field: SortField;
+  label: string;
+  query: ApplicationQuery;
+  onChange: (changes: Partial<ApplicationQuery>) => void;
+}) {
+  const isSorted = query.sort === field;
+  const Icon = !isSorted ? ArrowUpDown : query.direction === "asc" ? ArrowUp : ArrowDown;
+
+  // First click sorts ascending, the next one flips the direction
+  const handleClick = () => {
+    onChange({
+      sort: field,
+      direction: isSorted && query.direction === "asc" ? "desc" : "asc",
+    });
+  };
+
+  return (
+    <th
+      className="px-6 py-4 text-left text-sm font-semibold"
+      aria-sort={isSorted ? (query.direction === "asc" ? "ascending" : "descending") : "none"}
+    >
+      <button type="button" onClick={handleClick} className="flex items-center gap-1 hover:text-slate-300 transition-colors">
+        {label}
+        <Icon className={`w-3.5 h-3.5 ${isSorted ? '' : 'opacity-40'}`} />
+      </button>
+    </th>
+  );
+}
+
+// Typing only updates the field; the URL, and the search it sets off,
+// follow once typing pauses
+function DebouncedInput({
+  value,
+  onCommit,
+  ...props
+}: Omit<React.ComponentProps<typeof Input>, "value" | "onChange"> & {
+  value: string;
+  onCommit: (value: string) => void;
+}) {
+  const [text, setText] = useState(value);
+
+  useEffect(() => {
+    if (text === value) return;
+    const timer = setTimeout(() => onCommit(text), COMMIT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text, value, onCommit]);
+
+  return <Input {...props} value={text} onChange={(e) => setText(e.target.value)} />;
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Download, Tag, Trash2, X } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { showUndo } from '@/components/undo-toast';
+import { type CoolOffStartType } from '@/lib/db';
+import { applyBulkAction, revertStatusChanges, type BulkAction, type BulkResult } from '@/lib/applications';
+import { restoreApplications } from '@/lib/trash';
+import { buildApplicationsCsv } from '@/lib/csv-export';
+import { downloadFile } from '@/lib/download';
+import { DEFAULT_PIPELINE, listStages } from '@/lib/pipeline';
+
+export function BulkActions({
+  selectedIds,
+  matchingCount,
+  onSelectAllMatching,
+  onClear,
+}: {
+  selectedIds: number[];
+  // Every application the current filters match, across all pages
+  matchingCount: number;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+}) {
+  const [tag, setTag] = useState("");
+  const [summary, setSummary] = useState("");
+  const [busy, setBusy] = useState(false);
+  const stages = useLiveQuery(listStages, [], DEFAULT_PIPELINE.stages);
+
+  if (selectedIds.length === 0 && !summary) return null;
+
+  const count = selectedIds.length;
+
+  const run = async (action: BulkAction) => {
+    setBusy(true);
+    try {
+      const result = await applyBulkAction(selectedIds, action);
+      setSummary(describe(action, result));
+      if (result.trashIds.length > 0) {
+        showUndo(`Moved ${plural(result.trashIds.length)} to the trash`, () => restoreApplications(result.trashIds));
+      } else if (result.statusChanges.length > 0) {
+        showUndo(`Changed the status of ${plural(result.statusChanges.length)}`, () => revertStatusChanges(result.statusChanges));
+      }
+      if (action.type === "delete") onClear();
+      if (action.type === "tag") setTag("");
+    } catch (error) {
+      console.error('Error applying bulk action:', error);
+      alert('Failed to update the selected applications');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      downloadFile("job-applications.csv", await buildApplicationsCsv(selectedIds), "text/csv");
+      setSummary(`Exported ${plural(count)}`);
+    } catch (error) {
+      console.error('Error exporting applications:', error);
+      alert('Failed to export the selected applications');
+    }
+  };
+
+  return (
+    <div className="glass-effect rounded-xl p-4 mb-4 shadow-lg space-y-3">
+      {count > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <p className="text-sm font-medium text-slate-900">
+            {plural(count)} selected
+          </p>
+          {count < matchingCount && (
+            <button
+              type="button"
+              onClick={onSelectAllMatching}
+              className="text-sm text-slate-600 underline underline-offset-2 hover:text-slate-900"
+            >
+              Select all {matchingCount} matching
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-sm text-slate-600 underline underline-offset-2 hover:text-slate-900"
+          >
+            Clear selection
+          </button>
+
+          <div className="flex flex-wrap items-center gap-2 ml-auto">
+            <Select
+              value=""
+              onValueChange={(status) => run({ type: "status", status })}
+              disabled={busy}
+            >
+              <SelectTrigger size="sm" className="w-[150px]" aria-label="Change status">
+                <SelectValue placeholder="Change status" />
+              </SelectTrigger>
+              <SelectContent>
+                {stages.map(({ name }) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value=""
+              onValueChange={(coolOffStartType: CoolOffStartType) => run({ type: "coolOffStartType", coolOffStartType })}
+              disabled={busy}
+            >
+              <SelectTrigger size="sm" className="w-[170px]" aria-label="Set cool-off start">
+                <SelectValue placeholder="Cool-off starts" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="application">After Application</SelectItem>
+                <SelectItem value="rejection">After Rejection</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (tag.trim()) run({ type: "tag", tag: tag.trim() });
+              }}
+              className="flex items-center gap-2"
+            >
+              <Input
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                placeholder="Tag"
+                aria-label="Tag"
+                className="h-8 w-28"
+              />
+              <Button type="submit" variant="outline" size="sm" disabled={busy || !tag.trim()}>
+                <Tag className="w-4 h-4 mr-1" />
+                Add Tag
+              </Button>
+            </form>
+
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={busy}>
+              <Download className="w-4 h-4 mr-1" />
+              Export
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => run({ type: "delete" })} disabled={busy}>
+              <Trash2 className="w-4 h-4 mr-1 text-red-600" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {summary && (
+        <div className="flex items-center justify-between rounded-lg bg-slate-50 border border-slate-200 px-3 py-2 text-sm text-slate-700">
+          {summary}
+          <button type="button" onClick={() => setSummary("")} aria-label="Dismiss">
+            <X className="w-4 h-4 text-slate-400 hover:text-slate-700" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function plural(count: number) {
+  return `${count} ${count === 1 ? "application" : "applications"}`;
+}
+
+// One line for the whole selection, naming what was left alone and why
+function describe(action: BulkAction, { changed, unchanged }: BulkResult) {
+  switch (action.type) {
+    case "status":
+      return `Moved ${plural(changed)} to ${action.status}` + (unchanged ? `; ${unchanged} already had that status` : "");
+    case "coolOffStartType":
+      return `Changed the cool-off start of ${plural(changed)}`
+        + (unchanged ? `; ${unchanged} already matched` : "");
+    case "tag":
+      return `Tagged ${plural(changed)} "${action.tag}"` + (unchanged ? `; ${unchanged} already had it` : "");
+    case "delete":
+      return `Moved ${plural(changed)} to the trash`;
+  }
+}
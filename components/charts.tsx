@@ -0,0 +1,63 @@
+// Small dependency-free charts drawn with plain elements
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+  // Shown on hover; defaults to the label and value
+  title?: string;
+}
+
+// Vertical bars for a series over time
+export function ColumnChart({ data, height = 160 }: { data: ChartDatum[]; height?: number }) {
+  const max = Math.max(1, ...data.map(datum => datum.value));
+
+  return (
+    <div>
+      <div className="flex items-end gap-1" style={{ height }}>
+        {data.map(datum => (
+          <div
+            key={datum.label}
+            className="flex-1 rounded-t bg-blue-500 hover:bg-blue-600 transition-colors"
+            style={{ height: `${(datum.value / max) * 100}%`, minHeight: datum.value > 0 ? 2 : 0 }}
+            title={datum.title ?? `${datum.label}: ${datum.value}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-slate-500 mt-2">
+        <span>{data[0]?.label}</span>
+        <span>{data[data.length - 1]?.label}</span>
+      </div>
+    </div>
+  );
+}
+
+// Labelled horizontal bars, scaled to the largest value or to `max`
+export function BarList({
+  data,
+  max,
+  format = value => String(value),
+  color = "bg-blue-500",
+}: {
+  data: ChartDatum[];
+  max?: number;
+  format?: (value: number) => string;
+  color?: string;
+}) {
+  const scale = max ?? Math.max(1, ...data.map(datum => datum.value));
+
+  return (
+    <ul className="space-y-2">
+      {data.map(datum => (
+        <li key={datum.label} title={datum.title}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-slate-700 truncate">{datum.label}</span>
+            <span className="font-medium text-slate-900 ml-2">{format(datum.value)}</span>
+          </div>
+          <div className="h-2 rounded-full bg-slate-100">
+            <div className={`h-2 rounded-full ${color}`} style={{ width: `${(datum.value / scale) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { type Company } from '@/lib/db';
+import { createCompany, updateCompany, type CompanyInput } from '@/lib/companies';
+
+// Creates a company, or edits the one given. Mount it only while open so the
+// form starts from the company each time.
+export function CompanyDialog({
+  company,
+  onClose,
+  onSaved,
+}: {
+  company?: Company;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [formData, setFormData] = useState<CompanyInput>({
+    name: company?.name ?? "",
+    website: company?.website ?? "",
+    notes: company?.notes ?? "",
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (company) {
+        await updateCompany(company.id!, formData);
+      } else {
+        await createCompany(formData);
+      }
+      onSaved();
+    } catch (error) {
+      console.error('Error saving company:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save company');
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{company ? "Edit Company" : "New Company"}</DialogTitle>
+          <DialogDescription>
+            {company
+              ? "Renaming also renames it on every application, policy and contact"
+              : "Companies are also added whenever an application names a new one"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div>
+            <Label htmlFor="name">Name</Label>
+            <Input
+              id="name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="e.g., Google"
+              required
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="website">Website</Label>
+            <Input
+              id="website"
+              type="url"
+              value={formData.website}
+              onChange={(e) => setFormData({ ...formData, website: e.target.value })}
+              placeholder="https://careers.example.com"
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="notes">Notes</Label>
+            <textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={5}
+              className="mt-1 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit">
+              {company ? "Update" : "Add"} Company
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
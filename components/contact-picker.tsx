@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Plus } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { type ContactRole } from '@/lib/db';
+import { CONTACT_ROLE_LABELS, createContact, listContacts } from '@/lib/contacts';
+
+// Checkbox list of contacts, people at the application's company first,
+// with a quick way to add someone new without leaving the dialog
+export function ContactPicker({
+  company,
+  value,
+  onChange,
+}: {
+  company: string;
+  value: number[];
+  onChange: (contactIds: number[]) => void;
+}) {
+  const contacts = useLiveQuery(listContacts, [], []);
+  const [newName, setNewName] = useState("");
+  const [newRole, setNewRole] = useState<ContactRole>("referrer");
+
+  const companyKey = company.trim().toLowerCase();
+  const sorted = [...contacts].sort((a, b) =>
+    Number(b.company.toLowerCase() === companyKey) - Number(a.company.toLowerCase() === companyKey)
+  );
+
+  const toggle = (id: number, checked: boolean) => {
+    onChange(checked ? [...value, id] : value.filter(contactId => contactId !== id));
+  };
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+
+    try {
+      const id = await createContact({
+        name: newName,
+        role: newRole,
+        company,
+        email: "",
+        linkedIn: "",
+        notes: "",
+        lastContacted: "",
+      });
+      onChange([...value, id]);
+      setNewName("");
+    } catch (error) {
+      console.error('Error saving contact:', error);
+      alert('Failed to save contact');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {sorted.length > 0 && (
+        <div className="max-h-40 overflow-y-auto rounded-md border border-slate-200 divide-y divide-slate-100">
+          {sorted.map(contact => (
+            <label key={contact.id} className="flex items-center gap-2 px-3 py-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={value.includes(contact.id!)}
+                onChange={(e) => toggle(contact.id!, e.target.checked)}
+              />
+              <span className="font-medium text-slate-900">{contact.name}</span>
+              <span className="text-xs text-slate-500">
+                {CONTACT_ROLE_LABELS[contact.role]}{contact.company && ` · ${contact.company}`}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New contact name"
+          aria-label="New contact name"
+        />
+        <Select value={newRole} onValueChange={(role: ContactRole) => setNewRole(role)}>
+          <SelectTrigger className="w-[160px]" aria-label="New contact role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CONTACT_ROLE_LABELS) as ContactRole[]).map(role => (
+              <SelectItem key={role} value={role}>{CONTACT_ROLE_LABELS[role]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" size="icon" onClick={handleAdd} disabled={!newName.trim()}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useLiveQuery } from "dexie-react-hooks";
+import { CheckCircle2, AlertTriangle } from "lucide-react";
+import { COOL_OFF_SCOPE_LABELS } from '@/lib/cool-off-policies';
+import { checkEligibility, type Candidate } from '@/lib/eligibility';
+
+export function EligibilityPanel({
+  candidate,
+  excludeId,
+  showEmpty = false,
+}: {
+  candidate: Candidate;
+  excludeId?: number | null;
+  // Say so when there is no history, instead of rendering nothing
+  showEmpty?: boolean;
+}) {
+  const { company, jobTitle, location } = candidate;
+  const eligibility = useLiveQuery(
+    () => checkEligibility({ company, jobTitle, location }, excludeId),
+    [company, jobTitle, location, excludeId]
+  );
+
+  if (!eligibility) return null;
+
+  if (eligibility.priors.length === 0) {
+    return showEmpty ? (
+      <div className="rounded-lg border p-3 text-sm bg-green-50 border-green-200 text-green-800 flex items-center font-medium">
+        <CheckCircle2 className="w-4 h-4 mr-2" />
+        No earlier applications at this company
+      </div>
+    ) : null;
+  }
+
+  return (
+    <div className={`rounded-lg border p-3 text-sm ${eligibility.canApply ? 'bg-green-50 border-green-200' : 'bg-orange-50 border-orange-200'}`}>
+      <div className={`flex items-center font-medium mb-2 ${eligibility.canApply ? 'text-green-800' : 'text-orange-800'}`}>
+        {eligibility.canApply ? (
+          <>
+            <CheckCircle2 className="w-4 h-4 mr-2" />
+            No running cool-off blocks this role
+          </>
+        ) : (
+          <>
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            Blocked until {new Date(eligibility.eligibleFrom).toLocaleDateString()}
+          </>
+        )}
+      </div>
+      <ul className="space-y-1.5">
+        {eligibility.priors.map(({ application, scope, isActive, trashed, blocks }) => (
+          <li key={`${trashed ? "trash" : "app"}-${application.id}`} className="flex items-start justify-between gap-3">
+            <div>
+              <span className="text-slate-900">{application.jobTitle}</span>
+              <span className="text-slate-500"> · {application.location} · {application.status}{trashed && " · In trash"}</span>
+            </div>
+            <span className={`text-xs whitespace-nowrap ${blocks ? 'text-orange-700 font-medium' : 'text-slate-500'}`}>
+              {!isActive
+                ? "Cool-off ended"
+                : `${blocks ? "Blocks" : "Doesn't block"} until ${new Date(application.coolOffEnds).toLocaleDateString()} (${COOL_OFF_SCOPE_LABELS[scope].toLowerCase()})`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
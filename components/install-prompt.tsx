@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useSyncExternalStore } from "react";
+import { Download } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { registerServiceWorker, type BeforeInstallPromptEvent } from '@/lib/service-worker';
+
+// The browser offers the prompt once per page load, often before the page
+// header has mounted, so it is kept here for whichever button asks for it
+let deferredPrompt: BeforeInstallPromptEvent | null = null;
+const listeners = new Set<() => void>();
+
+function setDeferredPrompt(event: BeforeInstallPromptEvent | null) {
+  deferredPrompt = event;
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Mounted once in the root layout: registers the service worker and holds
+// on to the install prompt
+export function AppInstaller() {
+  useEffect(() => {
+    registerServiceWorker().catch(error => console.error('Error registering service worker:', error));
+
+    const handleBeforeInstallPrompt = (event: Event) => {
+      event.preventDefault();
+      setDeferredPrompt(event as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => setDeferredPrompt(null);
+
+    window.addEventListener("beforeinstallprompt", handleBeforeInstallPrompt);
+    window.addEventListener("appinstalled", handleInstalled);
+
+    return () => {
+      window.removeEventListener("beforeinstallprompt", handleBeforeInstallPrompt);
+      window.removeEventListener("appinstalled", handleInstalled);
+    };
+  }, []);
+
+  return null;
+}
+
+// Only shown while the browser says the app can be installed
+export function InstallButton() {
+  const prompt = useSyncExternalStore(subscribe, () => deferredPrompt, () => null);
+  if (!prompt) return null;
+
+  const handleInstall = async () => {
+    try {
+      await prompt.prompt();
+      await prompt.userChoice;
+      // A prompt can only be used once, whatever the answer
+      setDeferredPrompt(null);
+    } catch (error) {
+      console.error('Error installing app:', error);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleInstall}>
+      <Download className="w-4 h-4 mr-2" />
+      Install App
+    </Button>
+  );
+}
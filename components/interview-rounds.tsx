@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { Plus, Pencil, Trash2, Users } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { type InterviewOutcome, type InterviewRound, type InterviewRoundType, type JobApplication } from '@/lib/db';
+import {
+  OUTCOME_LABELS,
+  ROUND_TYPE_LABELS,
+  createInterview,
+  deleteInterview,
+  listInterviews,
+  suggestStatus,
+  updateInterview,
+  type InterviewInput,
+} from '@/lib/interviews';
+import { changeApplicationStatus, getApplication } from '@/lib/applications';
+import { nowLocalDateTime } from '@/lib/dates';
+import { DEFAULT_PIPELINE, findStage, listStages } from '@/lib/pipeline';
+
+const EMPTY_ROUND: InterviewInput = {
+  roundType: "recruiter-screen",
+  scheduledAt: "",
+  interviewers: "",
+  outcome: "pending",
+  notes: "",
+};
+
+const OUTCOME_COLORS: Record<InterviewOutcome, string> = {
+  pending: "text-slate-600",
+  passed: "text-green-700",
+  failed: "text-red-700",
+  cancelled: "text-slate-400",
+};
+
+export function InterviewRounds({ application }: { application: JobApplication }) {
+  const [formData, setFormData] = useState<InterviewInput | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const rounds = useLiveQuery(() => listInterviews(application.id!), [application.id], []);
+  // Read live so the suggestion goes away once the status is applied
+  const current = useLiveQuery(() => getApplication(application.id!), [application.id]) ?? application;
+
+  const stages = useLiveQuery(listStages, [], DEFAULT_PIPELINE.stages);
+
+  const suggestion = suggestStatus(current, rounds, stages);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    try {
+      if (editingId) {
+        await updateInterview(editingId, formData);
+      } else {
+        await createInterview(application.id!, formData);
+      }
+      setFormData(null);
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error saving interview:', error);
+      alert('Failed to save interview');
+    }
+  };
+
+  const handleEdit = (round: InterviewRound) => {
+    setFormData({
+      roundType: round.roundType,
+      scheduledAt: round.scheduledAt,
+      interviewers: round.interviewers,
+      outcome: round.outcome,
+      notes: round.notes,
+    });
+    setEditingId(round.id!);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (confirm("Are you sure you want to delete this interview round?")) {
+      try {
+        await deleteInterview(id);
+      } catch (error) {
+        console.error('Error deleting interview:', error);
+      }
+    }
+  };
+
+  const handleApplySuggestion = async () => {
+    if (!suggestion) return;
+
+    try {
+      await changeApplicationStatus(application.id!, suggestion);
+    } catch (error) {
+      console.error('Error updating status:', error);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-slate-900">Interviews</h3>
+        {!formData && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setFormData({ ...EMPTY_ROUND, scheduledAt: nowLocalDateTime() })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Round
+          </Button>
+        )}
+      </div>
+
+      {suggestion && (
+        <div className="flex items-center justify-between gap-3 rounded-lg bg-blue-50 border border-blue-200 px-3 py-2 text-sm mb-3">
+          <span className="text-blue-900">
+            {findStage(stages, suggestion)?.kind === "negative" ? "The latest round was a fail." : "Interviews have started."}
+            {" "}Mark as {suggestion}?
+          </span>
+          <Button size="sm" onClick={handleApplySuggestion}>
+            Update Status
+          </Button>
+        </div>
+      )}
+
+      {formData && (
+        <form onSubmit={handleSubmit} className="rounded-lg border border-slate-200 p-3 space-y-3 mb-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="roundType">Round</Label>
+              <Select
+                value={formData.roundType}
+                onValueChange={(value: InterviewRoundType) => setFormData({ ...formData, roundType: value })}
+              >
+                <SelectTrigger id="roundType" className="mt-1 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ROUND_TYPE_LABELS) as InterviewRoundType[]).map(type => (
+                    <SelectItem key={type} value={type}>{ROUND_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="outcome">Outcome</Label>
+              <Select
+                value={formData.outcome}
+                onValueChange={(value: InterviewOutcome) => setFormData({ ...formData, outcome: value })}
+              >
+                <SelectTrigger id="outcome" className="mt-1 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(OUTCOME_LABELS) as InterviewOutcome[]).map(outcome => (
+                    <SelectItem key={outcome} value={outcome}>{OUTCOME_LABELS[outcome]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="scheduledAt">Scheduled</Label>
+            <Input
+              id="scheduledAt"
+              type="datetime-local"
+              value={formData.scheduledAt}
+              onChange={(e) => setFormData({ ...formData, scheduledAt: e.target.value })}
+              required
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="interviewers">Interviewers</Label>
+            <Input
+              id="interviewers"
+              value={formData.interviewers}
+              onChange={(e) => setFormData({ ...formData, interviewers: e.target.value })}
+              placeholder="e.g., Jane Doe (EM), John Roe"
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="notes">Prep Notes</Label>
+            <textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={3}
+              className="mt-1 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setFormData(null);
+                setEditingId(null);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" size="sm">
+              {editingId ? "Update" : "Add"} Round
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {rounds.length === 0 ? (
+        !formData && <p className="text-sm text-slate-500">No interviews scheduled</p>
+      ) : (
+        <ul className="space-y-2">
+          {rounds.map(round => (
+            <li key={round.id} className="rounded-lg border border-slate-200 px-3 py-2 text-sm">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="font-medium text-slate-900">
+                    {ROUND_TYPE_LABELS[round.roundType]}
+                    <span className={`ml-2 text-xs font-normal ${OUTCOME_COLORS[round.outcome]}`}>
+                      {OUTCOME_LABELS[round.outcome]}
+                    </span>
+                  </p>
+                  <p className="text-xs text-slate-500">{new Date(round.scheduledAt).toLocaleString()}</p>
+                </div>
+                <div className="flex items-center">
+                  <Button variant="ghost" size="icon" onClick={() => handleEdit(round)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(round.id!)}>
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+              {round.interviewers && (
+                <p className="flex items-center text-xs text-slate-600 mt-1">
+                  <Users className="w-3 h-3 mr-1" />
+                  {round.interviewers}
+                </p>
+              )}
+              {round.notes && (
+                <p className="text-xs text-slate-600 mt-1 whitespace-pre-wrap">{round.notes}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { cn } from "@/lib/utils";
+import { InstallButton } from "@/components/install-prompt";
+
+const NAV_ITEMS = [
+  { href: "/", label: "Applications" },
+  { href: "/board", label: "Board" },
+  { href: "/calendar", label: "Calendar" },
+  { href: "/companies", label: "Companies" },
+  { href: "/analytics", label: "Analytics" },
+  { href: "/eligibility", label: "Can I Apply?" },
+  { href: "/contacts", label: "Contacts" },
+  { href: "/policies", label: "Cool-off Policies" },
+  { href: "/import", label: "Import CSV" },
+  { href: "/backup", label: "Backup & Export" },
+  { href: "/trash", label: "Trash" },
+  { href: "/settings", label: "Settings" },
+];
+
+export function PageShell({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100">
+      <style jsx global>{`
+        body {
+          font-family: var(--font-work-sans), sans-serif;
+        }
+
+        h1, h2, h3 {
+          font-family: var(--font-questrial), sans-serif;
+        }
+
+        @keyframes slide-up {
+          from {
+            opacity: 0;
+            transform: translateY(10px);
+          }
+          to {
+            opacity: 1;
+            transform: translateY(0);
+          }
+        }
+
+        .animate-slide-up {
+          animation: slide-up 0.4s ease-out forwards;
+          opacity: 0;
+        }
+
+        .stagger-1 { animation-delay: 0.05s; }
+        .stagger-2 { animation-delay: 0.1s; }
+        .stagger-3 { animation-delay: 0.15s; }
+
+        .glass-effect {
+          background: rgba(255, 255, 255, 0.8);
+          backdrop-filter: blur(10px);
+          border: 1px solid rgba(255, 255, 255, 0.5);
+        }
+      `}</style>
+
+      <div className="container mx-auto px-4 py-12 max-w-7xl">
+        {children}
+      </div>
+    </div>
+  );
+}
+
+export function PageHeader({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description: string;
+  children?: React.ReactNode;
+}) {
+  const pathname = usePathname();
+
+  return (
+    <div className="mb-12 animate-slide-up">
+      <nav className="flex flex-wrap items-center gap-4 mb-6 text-sm font-medium">
+        {NAV_ITEMS.map(item => (
+          <Link
+            key={item.href}
+            href={item.href}
+            className={cn(
+              "transition-colors",
+              isActive(pathname, item.href) ? "text-slate-900" : "text-slate-500 hover:text-slate-900"
+            )}
+          >
+            {item.label}
+          </Link>
+        ))}
+        <div className="ml-auto">
+          <InstallButton />
+        </div>
+      </nav>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-5xl font-bold text-slate-900 mb-2 tracking-tight">
+            {title}
+          </h1>
+          <p className="text-slate-600 text-lg">
+            {description}
+          </p>
+        </div>
+        {children && (
+          <div className="flex items-center gap-3">
+            {children}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Sections with pages beneath them, like a company's page, stay highlighted
+function isActive(pathname: string, href: string) {
+  return href === "/" ? pathname === href : pathname.startsWith(href);
+}
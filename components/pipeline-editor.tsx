@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { useLiveQuery } from "dexie-react-hooks";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DEFAULT_PIPELINE,
+  STAGE_KIND_LABELS,
+  addStage,
+  deleteStage,
+  listStages,
+  moveStage,
+  updateStage,
+  type PipelineStage,
+  type StageKind,
+} from '@/lib/pipeline';
+
+// Stages are saved as they are edited; a rename is saved when the field loses focus
+export function PipelineEditor() {
+  const stages = useLiveQuery(listStages, [], DEFAULT_PIPELINE.stages);
+  const [newName, setNewName] = useState("");
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await addStage({ name: newName, kind: "open", coolOffTrigger: false });
+      setNewName("");
+    } catch (error) {
+      console.error('Error adding stage:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add stage');
+    }
+  };
+
+  return (
+    <div>
+      <ol className="space-y-2 mb-4">
+        {stages.map((stage, index) => (
+          <StageRow
+            key={stage.name}
+            stage={stage}
+            index={index}
+            last={index === stages.length - 1}
+          />
+        ))}
+      </ol>
+
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New stage, e.g. Phone Screen"
+          aria-label="New stage name"
+          className="w-64"
+        />
+        <Button type="submit" variant="outline" disabled={!newName.trim()}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Stage
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+// The first stage can be renamed but not moved or removed
+function StageRow({ stage, index, last }: { stage: PipelineStage; index: number; last: boolean }) {
+  const [name, setName] = useState(stage.name);
+  const first = index === 0;
+
+  const save = async (changes: Partial<PipelineStage>) => {
+    try {
+      await updateStage(stage.name, changes);
+    } catch (error) {
+      console.error('Error updating stage:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update stage');
+      setName(stage.name);
+    }
+  };
+
+  const handleMove = async (direction: 1 | -1) => {
+    try {
+      await moveStage(stage.name, direction);
+    } catch (error) {
+      console.error('Error moving stage:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (confirm(`Remove the ${stage.name} stage? Past status changes keep the name.`)) {
+      try {
+        await deleteStage(stage.name);
+      } catch (error) {
+        console.error('Error deleting stage:', error);
+        alert(error instanceof Error ? error.message : 'Failed to delete stage');
+      }
+    }
+  };
+
+  return (
+    <li className="flex flex-wrap items-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={() => name !== stage.name && save({ name })}
+        onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+        aria-label="Stage name"
+        className="h-8 w-40"
+      />
+      <Select value={stage.kind} onValueChange={(kind: StageKind) => save({ kind })}>
+        <SelectTrigger size="sm" className="w-[170px]" aria-label={`${stage.name} kind`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(STAGE_KIND_LABELS) as StageKind[]).map(kind => (
+            <SelectItem key={kind} value={kind}>{STAGE_KIND_LABELS[kind]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <label className="flex items-center gap-2 text-sm text-slate-700">
+        <input
+          type="checkbox"
+          checked={stage.coolOffTrigger}
+          onChange={(e) => save({ coolOffTrigger: e.target.checked })}
+        />
+        Starts cool-off
+      </label>
+      {first && <span className="text-xs text-slate-500">New applications start here</span>}
+
+      <div className="flex items-center gap-1 ml-auto">
+        <Button variant="ghost" size="icon" onClick={() => handleMove(-1)} disabled={index <= 1} aria-label={`Move ${stage.name} up`}>
+          <ArrowUp className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => handleMove(1)} disabled={first || last} aria-label={`Move ${stage.name} down`}>
+          <ArrowDown className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={handleDelete} disabled={first} aria-label={`Delete ${stage.name}`}>
+          <Trash2 className="w-4 h-4 text-red-600" />
+        </Button>
+      </div>
+    </li>
+  );
+}
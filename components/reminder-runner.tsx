@@ -0,0 +1,29 @@
+"use client";
+
+import { useEffect } from "react";
+import { REMINDER_CHECK_INTERVAL_MS, checkReminders } from '@/lib/reminders';
+
+// Renders nothing; checks for due reminders on load, on an interval and when
+// the tab comes back into view
+export function ReminderRunner() {
+  useEffect(() => {
+    const check = () => {
+      checkReminders().catch(error => console.error('Error checking reminders:', error));
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") check();
+    };
+
+    check();
+    const interval = setInterval(check, REMINDER_CHECK_INTERVAL_MS);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,14 @@
+"use client";
+
+import { useEffect } from "react";
+import { purgeExpiredTrash } from '@/lib/trash';
+
+// Mounted once in the root layout: clears out trash older than the
+// retention period each time the app is opened
+export function TrashPurger() {
+  useEffect(() => {
+    purgeExpiredTrash().catch(error => console.error('Error purging trash:', error));
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useSyncExternalStore } from "react";
+import { Undo2, X } from "lucide-react";
+import { Button } from '@/components/ui/button';
+
+const UNDO_TIMEOUT_MS = 8000;
+
+interface UndoOffer {
+  message: string;
+  undo: () => Promise<unknown>;
+}
+
+// One offer at a time: a newer action replaces the chance to undo an older one
+let currentOffer: UndoOffer | null = null;
+const listeners = new Set<() => void>();
+
+function setOffer(offer: UndoOffer | null) {
+  currentOffer = offer;
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function showUndo(message: string, undo: () => Promise<unknown>) {
+  setOffer({ message, undo });
+}
+
+// Mounted once in the root layout
+export function UndoToast() {
+  const offer = useSyncExternalStore(subscribe, () => currentOffer, () => null);
+
+  useEffect(() => {
+    if (!offer) return;
+
+    const timer = setTimeout(() => {
+      if (currentOffer === offer) setOffer(null);
+    }, UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [offer]);
+
+  if (!offer) return null;
+
+  const handleUndo = async () => {
+    setOffer(null);
+    try {
+      await offer.undo();
+    } catch (error) {
+      console.error('Error undoing change:', error);
+      alert('Failed to undo');
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 rounded-lg bg-slate-900 text-white px-4 py-3 shadow-xl text-sm"
+    >
+      {offer.message}
+      <Button variant="secondary" size="sm" onClick={handleUndo}>
+        <Undo2 className="w-4 h-4 mr-1" />
+        Undo
+      </Button>
+      <button type="button" onClick={() => setOffer(null)} aria-label="Dismiss">
+        <X className="w-4 h-4 text-slate-400 hover:text-white" />
+      </button>
+    </div>
+  );
+}
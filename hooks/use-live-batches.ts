@@ -0,0 +1,55 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { liveQuery, type Subscription } from "dexie";
+
+export interface Batch<T> {
+  // Changes whenever what the batch reads changes
+  key: string;
+  load: () => Promise<T[]>;
+}
+
+// A live query per batch, each kept for as long as its key stays, so adding
+// a batch only runs the new one and a write only re-runs the batches it
+// touches. Returns the batches that have loaded, in order, up to the first
+// one still loading. Like useLiveQuery, a batch whose key changed shows its
+// previous rows until the new ones arrive.
+export function useLiveBatches<T>(batches: Batch<T>[]) {
+  const subscriptions = useRef(new Map<string, Subscription>());
+  const [results, setResults] = useState<Array<T[] | undefined>>([]);
+
+  useEffect(() => {
+    const current = subscriptions.current;
+    const keys = new Set(batches.map(batch => batch.key));
+    for (const [key, subscription] of current) {
+      if (!keys.has(key)) {
+        subscription.unsubscribe();
+        current.delete(key);
+      }
+    }
+
+    batches.forEach(({ key, load }, index) => {
+      if (current.has(key)) return;
+      current.set(key, liveQuery(load).subscribe({
+        next: rows => setResults(previous => {
+          const next = previous.slice(0, current.size);
+          next[index] = rows;
+          return next;
+        }),
+        error: error => console.error('Error loading batch:', error),
+      }));
+    });
+  }, [batches]);
+
+  useEffect(() => {
+    const current = subscriptions.current;
+    return () => {
+      for (const subscription of current.values()) subscription.unsubscribe();
+      current.clear();
+    };
+  }, []);
+
+  const loaded: T[][] = [];
+  for (let i = 0; i < batches.length && results[i]; i++) loaded.push(results[i]!);
+  return loaded;
+}
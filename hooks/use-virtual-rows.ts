@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+
+// Windowing for a fixed-height scroll container: only the rows in view, plus
+// a few either side, need rendering, and the padding stands in for the rest
+// so the scrollbar stays true. Rows are measured once rendered, since tags
+// and badges make some taller; the estimate covers the ones never shown.
+export function useVirtualRows({
+  count,
+  estimatedRowHeight,
+  viewportHeight,
+  overscan = 5,
+  onEndReached,
+}: {
+  count: number;
+  estimatedRowHeight: number;
+  viewportHeight: number;
+  overscan?: number;
+  // Called while the last rows are in view, e.g. to load the next batch
+  onEndReached?: () => void;
+}) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [heights, setHeights] = useState<Record<number, number>>({});
+  const heightOf = (index: number) => heights[index] ?? estimatedRowHeight;
+  const sumHeights = (from: number, to: number) => {
+    let total = 0;
+    for (let i = from; i < to; i++) total += heightOf(i);
+    return total;
+  };
+
+  let first = 0;
+  let top = 0;
+  while (first < count && top + heightOf(first) <= scrollTop) top += heightOf(first++);
+  let last = first;
+  let bottom = top;
+  while (last < count && bottom < scrollTop + viewportHeight) bottom += heightOf(last++);
+
+  const start = Math.max(0, first - overscan);
+  const end = Math.min(count, last + overscan);
+  const totalHeight = sumHeights(0, count);
+
+  const onScroll = (e: React.UIEvent<HTMLElement>) => {
+    const scrolled = e.currentTarget.scrollTop;
+    setScrollTop(scrolled);
+    if (scrolled + viewportHeight >= totalHeight - overscan * estimatedRowHeight) onEndReached?.();
+  };
+
+  // Ref for the rendered row at the index, which records its height
+  const measure = (index: number) => (row: HTMLElement | null) => {
+    if (!row) return;
+    const height = row.getBoundingClientRect().height;
+    setHeights(previous => previous[index] === height ? previous : { ...previous, [index]: height });
+  };
+
+  return {
+    start,
+    end,
+    paddingTop: sumHeights(0, start),
+    paddingBottom: sumHeights(end, count),
+    onScroll,
+    measure,
+  };
+}
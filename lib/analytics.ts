@@ -0,0 +1,176 @@
+import { db, type ApplicationStatus, type JobApplication, type StatusEvent } from '@/lib/db';
+import { addDays, daysBetween, startOfWeek, today } from '@/lib/dates';
+import { initialStage, listStages, stagesOfKind, type PipelineStage } from '@/lib/pipeline';
+
+// How the pipeline's stages count in the numbers below
+interface StageGroups {
+  // Stages an application moves through, in order: open ones, then offers
+  funnel: ApplicationStatus[];
+  // Statuses that mean the company answered: anything past the first stage
+  // that the user didn't close themselves
+  responses: ApplicationStatus[];
+  rejections: ApplicationStatus[];
+  offers: ApplicationStatus[];
+}
+
+function groupStages(stages: PipelineStage[]): StageGroups {
+  return {
+    funnel: [...stagesOfKind(stages, "open"), ...stagesOfKind(stages, "positive")],
+    responses: stagesOfKind(stages, "open", "positive", "negative").filter(name => name !== initialStage(stages)),
+    rejections: stagesOfKind(stages, "negative"),
+    offers: stagesOfKind(stages, "positive"),
+  };
+}
+
+export interface FunnelStage {
+  stage: ApplicationStatus;
+  count: number;
+  // Share of all applications that got this far
+  rate: number;
+}
+
+export interface WeekCount {
+  week: string;
+  count: number;
+}
+
+export interface Breakdown {
+  label: string;
+  applications: number;
+  responses: number;
+  offers: number;
+}
+
+export interface StageRejection {
+  stage: ApplicationStatus;
+  reached: number;
+  rejected: number;
+  rate: number;
+}
+
+export interface Analytics {
+  total: number;
+  funnel: FunnelStage[];
+  responseRate: number;
+  // Days from applying to the first answer; null until anyone has answered
+  medianDaysToResponse: number | null;
+  perWeek: WeekCount[];
+  byCompany: Breakdown[];
+  byLocation: Breakdown[];
+  bySource: Breakdown[];
+  rejections: StageRejection[];
+}
+
+// Everything is derived from the applications and their status history
+export async function getAnalytics(weeks = 26): Promise<Analytics> {
+  const apps = await db.applications.toArray();
+  const events = await db.statusEvents.toArray();
+  const stages = await listStages();
+  const groups = groupStages(stages);
+
+  const history = new Map<number, StatusEvent[]>();
+  for (const event of events) {
+    history.set(event.applicationId, [...(history.get(event.applicationId) ?? []), event]);
+  }
+  for (const list of history.values()) {
+    list.sort((a, b) => a.date.localeCompare(b.date) || a.id! - b.id!);
+  }
+
+  const timelines = apps.map(app => ({ app, events: history.get(app.id!) ?? [] }));
+  const total = apps.length;
+
+  const reached = (stage: ApplicationStatus) =>
+    timelines.filter(({ app, events }) => reachedStage(app, events, stage, groups));
+
+  const funnel = groups.funnel.map(stage => {
+    const count = reached(stage).length;
+    return { stage, count, rate: ratio(count, total) };
+  });
+
+  const responseDays = timelines.flatMap(({ app, events }) => {
+    const response = events.find(event => groups.responses.includes(event.status));
+    return response ? [daysBetween(app.appliedDate, response.date)] : [];
+  });
+
+  // The stage an application was rejected from is the last one before it
+  const rejectedFrom = new Map<ApplicationStatus, number>();
+  for (const { events } of timelines) {
+    const index = events.findIndex(event => groups.rejections.includes(event.status));
+    if (index === -1) continue;
+    const stage = events.slice(0, index).reverse().find(event => groups.funnel.includes(event.status))?.status ?? initialStage(stages);
+    rejectedFrom.set(stage, (rejectedFrom.get(stage) ?? 0) + 1);
+  }
+
+  return {
+    total,
+    funnel,
+    responseRate: ratio(responseDays.length, total),
+    medianDaysToResponse: median(responseDays),
+    perWeek: countPerWeek(apps, weeks),
+    byCompany: breakdown(timelines, groups, app => app.company),
+    byLocation: breakdown(timelines, groups, app => app.location),
+    bySource: breakdown(timelines, groups, app => app.source || "Not recorded"),
+    rejections: funnel.map(({ stage, count }) => {
+      const rejected = rejectedFrom.get(stage) ?? 0;
+      return { stage, reached: count, rejected, rate: ratio(rejected, count) };
+    }),
+  };
+}
+
+// Counts an application as past a stage once its history shows that stage or
+// a later one; records imported without history fall back to the status
+function reachedStage(app: JobApplication, events: StatusEvent[], stage: ApplicationStatus, { funnel }: StageGroups) {
+  const target = funnel.indexOf(stage);
+  const statuses = events.length > 0 ? events.map(event => event.status) : [app.status];
+  return target === 0 || statuses.some(status => funnel.indexOf(status) >= target);
+}
+
+// The last `weeks` weeks up to this one, including empty weeks
+function countPerWeek(apps: JobApplication[], weeks: number): WeekCount[] {
+  const counts = new Map<string, number>();
+  for (const app of apps) {
+    const week = startOfWeek(app.appliedDate);
+    counts.set(week, (counts.get(week) ?? 0) + 1);
+  }
+
+  const thisWeek = startOfWeek(today());
+  return Array.from({ length: weeks }, (_, i) => {
+    const week = addDays(thisWeek, (i - weeks + 1) * 7);
+    return { week, count: counts.get(week) ?? 0 };
+  });
+}
+
+// Largest groups first, matching labels without regard to case
+function breakdown(
+  timelines: Array<{ app: JobApplication; events: StatusEvent[] }>,
+  stageGroups: StageGroups,
+  label: (app: JobApplication) => string,
+  limit = 10,
+): Breakdown[] {
+  const groups = new Map<string, Breakdown>();
+  for (const { app, events } of timelines) {
+    const name = label(app).trim();
+    const key = name.toLowerCase();
+    const group = groups.get(key) ?? { label: name, applications: 0, responses: 0, offers: 0 };
+    group.applications++;
+    if (events.some(event => stageGroups.responses.includes(event.status))) group.responses++;
+    // The first offer stage comes after every open one, so reaching any offer reaches it
+    if (stageGroups.offers.length > 0 && reachedStage(app, events, stageGroups.offers[0], stageGroups)) group.offers++;
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => b.applications - a.applications || a.label.localeCompare(b.label))
+    .slice(0, limit);
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function ratio(part: number, whole: number) {
+  return whole === 0 ? 0 : part / whole;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_QUERY, firstPage, parseQuery, serializeQuery } from '@/lib/application-query';
+
+describe("serializeQuery", () => {
+  it("leaves defaults out of the URL", () => {
+    expect(serializeQuery(DEFAULT_QUERY)).toBe("");
+  });
+
+  it("round-trips filters and a page cursor", () => {
+    const query = { ...DEFAULT_QUERY, search: "acme", sort: "company" as const, after: { value: "Acme: Labs", id: 12 } };
+    expect(parseQuery(new URLSearchParams(serializeQuery(query)))).toEqual(query);
+  });
+});
+
+describe("parseQuery", () => {
+  it("keeps colons in a cursor's value", () => {
+    expect(parseQuery(new URLSearchParams("before=3:a:b")).before).toEqual({ id: 3, value: "a:b" });
+  });
+
+  it("drops malformed cursors", () => {
+    const query = parseQuery(new URLSearchParams("after=abc&before=:x"));
+    expect(query.after).toBeNull();
+    expect(query.before).toBeNull();
+  });
+
+  it("ignores before when after is set", () => {
+    const query = parseQuery(new URLSearchParams("after=1:2024-01-01&before=2:2024-02-01"));
+    expect(query.after).toEqual({ id: 1, value: "2024-01-01" });
+    expect(query.before).toBeNull();
+  });
+
+  it("falls back to defaults for unknown values", () => {
+    const query = parseQuery(new URLSearchParams("sort=salary&dir=up&salary=lots&mode=space"));
+    expect(query.sort).toBe(DEFAULT_QUERY.sort);
+    expect(query.direction).toBe(DEFAULT_QUERY.direction);
+    expect(query.minSalary).toBe("");
+    expect(query.workMode).toBeNull();
+  });
+});
+
+describe("firstPage", () => {
+  it("clears both cursors and keeps the rest", () => {
+    const query = { ...DEFAULT_QUERY, company: "acme", before: { value: "x", id: 1 } };
+    expect(firstPage(query)).toEqual({ ...DEFAULT_QUERY, company: "acme" });
+  });
+});
@@ -0,0 +1,146 @@
+import { SENIORITIES, WORK_MODES, type ApplicationStatus, type JobApplication, type Seniority, type WorkMode } from '@/lib/db';
+import { today } from '@/lib/dates';
+
+export type SortField = "company" | "jobTitle" | "location" | "status" | "appliedDate" | "coolOffEnds";
+export type SortDirection = "asc" | "desc";
+export type CoolOffFilter = "active" | "eligible";
+
+// The sort value and id of a row a page starts after, or ends before
+export interface PageCursor {
+  value: string;
+  id: number;
+}
+
+// Everything that decides which applications the table shows, in what
+// order, and which page of them. Round-trips through the URL query string so
+// views can be shared.
+export interface ApplicationQuery {
+  search: string;
+  status: ApplicationStatus | null;
+  company: string;
+  location: string;
+  coolOff: CoolOffFilter | null;
+  appliedFrom: string;
+  appliedTo: string;
+  workMode: WorkMode | null;
+  seniority: Seniority | null;
+  source: string;
+  // Whole number; matches ranges reaching at least this much, in any currency
+  minSalary: string;
+  sort: SortField;
+  direction: SortDirection;
+  // Keyset pages can't be reached by number, so a page is kept as the row
+  // it starts after, or ends before. Neither means the first page.
+  after: PageCursor | null;
+  before: PageCursor | null;
+}
+
+export const DEFAULT_QUERY: ApplicationQuery = {
+  search: "",
+  status: null,
+  company: "",
+  location: "",
+  coolOff: null,
+  appliedFrom: "",
+  appliedTo: "",
+  workMode: null,
+  seniority: null,
+  source: "",
+  minSalary: "",
+  sort: "appliedDate",
+  direction: "desc",
+  after: null,
+  before: null,
+};
+
+const SORT_FIELDS: SortField[] = ["company", "jobTitle", "location", "status", "appliedDate", "coolOffEnds"];
+
+// Query string parameter for each field
+const PARAMS: Record<keyof ApplicationQuery, string> = {
+  search: "q",
+  status: "status",
+  company: "company",
+  location: "location",
+  coolOff: "coolOff",
+  appliedFrom: "from",
+  appliedTo: "to",
+  workMode: "mode",
+  seniority: "level",
+  source: "source",
+  minSalary: "salary",
+  sort: "sort",
+  direction: "dir",
+  after: "after",
+  before: "before",
+};
+
+// Unknown or malformed values fall back to the defaults. Stages are the
+// user's own, so any status is taken as given and simply matches nothing
+// when the pipeline has no such stage.
+export function parseQuery(params: URLSearchParams): ApplicationQuery {
+  const get = (key: keyof ApplicationQuery) => params.get(PARAMS[key]) ?? "";
+
+  return {
+    search: get("search"),
+    status: get("status") || null,
+    company: get("company"),
+    location: get("location"),
+    coolOff: get("coolOff") === "active" || get("coolOff") === "eligible" ? get("coolOff") as CoolOffFilter : null,
+    appliedFrom: get("appliedFrom"),
+    appliedTo: get("appliedTo"),
+    workMode: WORK_MODES.find(mode => mode === get("workMode")) ?? null,
+    seniority: SENIORITIES.find(level => level === get("seniority")) ?? null,
+    source: get("source"),
+    minSalary: /^\d+$/.test(get("minSalary")) ? get("minSalary") : "",
+    sort: SORT_FIELDS.find(field => field === get("sort")) ?? DEFAULT_QUERY.sort,
+    direction: get("direction") === "asc" ? "asc" : get("direction") === "desc" ? "desc" : DEFAULT_QUERY.direction,
+    after: parseCursor(get("after")),
+    before: get("after") ? null : parseCursor(get("before")),
+  };
+}
+
+// Only values that differ from the defaults end up in the URL
+export function serializeQuery(query: ApplicationQuery) {
+  const params = new URLSearchParams();
+  for (const key of Object.keys(PARAMS) as Array<keyof ApplicationQuery>) {
+    const value = query[key];
+    if (value !== null && value !== "" && value !== DEFAULT_QUERY[key]) {
+      params.set(PARAMS[key], typeof value === "object" ? `${value.id}:${value.value}` : String(value));
+    }
+  }
+  return params.toString();
+}
+
+// The same view on its first page, for changes that start the paging over
+export function firstPage(query: ApplicationQuery): ApplicationQuery {
+  return { ...query, after: null, before: null };
+}
+
+export function hasActiveFilters(query: ApplicationQuery) {
+  return !!(query.search || query.status || query.company || query.location || query.coolOff || query.appliedFrom || query.appliedTo
+    || query.workMode || query.seniority || query.source || query.minSalary);
+}
+
+export function matchesQuery(app: JobApplication, query: ApplicationQuery) {
+  const contains = (value: string, term: string) => value.toLowerCase().includes(term.trim().toLowerCase());
+
+  if (query.search && ![app.company, app.jobTitle, app.location].some(value => contains(value, query.search))) return false;
+  if (query.status && app.status !== query.status) return false;
+  if (query.company && !contains(app.company, query.company)) return false;
+  if (query.location && !contains(app.location, query.location)) return false;
+  if (query.coolOff === "active" && app.coolOffEnds <= today()) return false;
+  if (query.coolOff === "eligible" && app.coolOffEnds > today()) return false;
+  if (query.appliedFrom && app.appliedDate < query.appliedFrom) return false;
+  if (query.appliedTo && app.appliedDate > query.appliedTo) return false;
+  if (query.workMode && app.workMode !== query.workMode) return false;
+  if (query.seniority && app.seniority !== query.seniority) return false;
+  if (query.source && !contains(app.source ?? "", query.source)) return false;
+  if (query.minSalary && !((app.salaryMax ?? app.salaryMin ?? -1) >= Number(query.minSalary))) return false;
+  return true;
+}
+
+// Written as "id:value"; the value may hold anything, colons included
+function parseCursor(param: string): PageCursor | null {
+  const match = /^(\d+):([\s\S]*)$/.exec(param);
+  return match ? { id: Number(match[1]), value: match[2] } : null;
+}
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { db, type JobApplication } from '@/lib/db';
+import { DEFAULT_QUERY, type ApplicationQuery } from '@/lib/application-query';
+import { listStatusEvents } from '@/lib/status-history';
+import { restoreApplications, trashApplication } from '@/lib/trash';
+import {
+  countApplicationsThrough,
+  createApplication,
+  findLatestAttempt,
+  listApplicationBatch,
+  listApplications,
+  listAttempts,
+  pageCursor,
+  updateApplication,
+  type ApplicationFields,
+} from '@/lib/applications';
+
+beforeEach(async () => {
+  await db.delete();
+  await db.open();
+});
+
+// Applications applied on consecutive days, with ties on every other date
+async function addApplications(count: number) {
+  const apps: JobApplication[] = Array.from({ length: count }, (_, i) => ({
+    company: `Company ${i}`,
+    jobTitle: "Engineer",
+    location: "Remote",
+    status: "Applied",
+    appliedDate: `2024-01-${String(Math.floor(i / 2) + 1).padStart(2, "0")}`,
+    coolOffEnds: "2024-07-01",
+    coolOffStartType: "application",
+    attempt: 1,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  }));
+  await db.applications.bulkAdd(apps);
+  return db.applications.toArray();
+}
+
+const ids = (apps: JobApplication[]) => apps.map(app => app.id);
+
+function fields(overrides: Partial<ApplicationFields> = {}): ApplicationFields {
+  return {
+    company: "Acme",
+    jobTitle: "Engineer",
+    location: "Remote",
+    status: "Applied",
+    appliedDate: "2024-01-15",
+    coolOffStartType: "application",
+    ...overrides,
+  };
+}
+
+const history = async (id: number) => (await listStatusEvents(id)).map(event => [event.status, event.date]);
+
+describe("listApplications", () => {
+  it("pages forward and back through ties in the sort column", async () => {
+    await addApplications(7);
+    const query: ApplicationQuery = { ...DEFAULT_QUERY, sort: "appliedDate", direction: "desc" };
+    const all = await listApplications(query, 100);
+
+    const first = await listApplications(query, 3);
+    const second = await listApplications(query, 3, { after: pageCursor(first[2], query) });
+    const third = await listApplications(query, 3, { after: pageCursor(second[2], query) });
+    expect([...ids(first), ...ids(second), ...ids(third)]).toEqual(ids(all));
+
+    const back = await listApplications(query, 3, { before: pageCursor(third[0], query) });
+    expect(ids(back)).toEqual(ids(second));
+  });
+
+  it("orders ascending by the sort column, then id", async () => {
+    await addApplications(4);
+    const query: ApplicationQuery = { ...DEFAULT_QUERY, direction: "asc" };
+    const dates = (await listApplications(query, 10)).map(app => [app.appliedDate, app.id]);
+    expect(dates).toEqual([...dates].sort());
+  });
+
+  it("only returns matching rows when filtered", async () => {
+    await addApplications(6);
+    const query: ApplicationQuery = { ...DEFAULT_QUERY, search: "company 1" };
+    expect((await listApplications(query, 10)).map(app => app.company)).toEqual(["Company 1"]);
+  });
+});
+
+describe("countApplicationsThrough", () => {
+  it("gives the position of a row in either direction", async () => {
+    await addApplications(5);
+    for (const direction of ["asc", "desc"] as const) {
+      const query: ApplicationQuery = { ...DEFAULT_QUERY, direction };
+      const all = await listApplications(query, 10);
+      const positions = await Promise.all(all.map(app => countApplicationsThrough(query, pageCursor(app, query))));
+      expect(positions).toEqual([1, 2, 3, 4, 5]);
+    }
+  });
+});
+
+describe("listApplicationBatch", () => {
+  it("keeps a batch bounded by the next one's cursor", async () => {
+    await addApplications(6);
+    const query: ApplicationQuery = { ...DEFAULT_QUERY };
+    const first = await listApplicationBatch(query, 3, null, null);
+    const through = pageCursor(first[2], query);
+
+    // A row sorting inside the first batch joins it instead of pushing one out
+    await db.applications.add({ ...first[0], id: undefined, company: "Late entry" });
+
+    const reloaded = await listApplicationBatch(query, 3, null, through);
+    expect(reloaded).toHaveLength(4);
+    expect(ids(reloaded).slice(-1)).toEqual([through.id]);
+
+    const second = await listApplicationBatch(query, 3, through, null);
+    expect(ids(second).some(id => ids(reloaded).includes(id))).toBe(false);
+  });
+});
+
+describe("updateApplication", () => {
+  it("moves the applied event and the cool-off with the applied date", async () => {
+    const id = await createApplication(fields());
+    await updateApplication(id, { appliedDate: "2024-02-10" });
+
+    expect(await history(id)).toEqual([["Applied", "2024-02-10"]]);
+    expect((await db.applications.get(id))?.coolOffEnds).toBe("2024-08-10");
+  });
+
+  it("moves an existing rejection to the new rejection date", async () => {
+    const id = await createApplication(fields({ status: "Rejected", coolOffStartType: "rejection" }), "2024-03-01");
+    await updateApplication(id, {}, "2024-04-20");
+
+    expect(await history(id)).toEqual([["Applied", "2024-01-15"], ["Rejected", "2024-04-20"]]);
+    expect((await db.applications.get(id))?.coolOffEnds).toBe("2024-10-20");
+  });
+});
+
+describe("attempts", () => {
+  it("links re-applications to the same role, ignoring case", async () => {
+    const first = await createApplication(fields({ appliedDate: "2023-01-10" }));
+    const second = await createApplication(fields({ company: "ACME ", jobTitle: "engineer", appliedDate: "2024-01-10" }));
+    const other = await createApplication(fields({ location: "Berlin" }));
+
+    expect(await db.applications.get(second)).toMatchObject({ attempt: 2, previousAttemptId: first });
+    expect(await db.applications.get(other)).toMatchObject({ attempt: 1, previousAttemptId: undefined });
+    expect(ids(await listAttempts(first))).toEqual([first, second]);
+    expect((await findLatestAttempt(fields(), second))?.id).toBe(first);
+  });
+
+  it("counts trashed attempts and relinks the chain past them", async () => {
+    const first = await createApplication(fields({ appliedDate: "2022-01-10" }));
+    const second = await createApplication(fields({ appliedDate: "2023-01-10" }));
+    const trashId = await trashApplication(second);
+
+    const third = await createApplication(fields({ appliedDate: "2024-01-10" }));
+    expect(await db.applications.get(third)).toMatchObject({ attempt: 3, previousAttemptId: first });
+    expect(ids(await listAttempts(third))).toEqual([first, third]);
+
+    await restoreApplications([trashId!]);
+    expect(ids(await listAttempts(third))).toEqual([first, second, third]);
+  });
+});
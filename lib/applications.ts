@@ -0,0 +1,495 @@
+import Dexie from 'dexie';
+import { db, initialStatusEvents, type ApplicationStatus, type CoolOffStartType, type JobApplication, type Seniority, type StatusEvent, type TrashedApplication, type WorkMode } from '@/lib/db';
+import { addMonths, today } from '@/lib/dates';
+import { getCoolOffTerms } from '@/lib/cool-off-policies';
+import { hasActiveFilters, matchesQuery, type ApplicationQuery, type PageCursor } from '@/lib/application-query';
+import { ensureCompany } from '@/lib/companies';
+import { trashApplication } from '@/lib/trash';
+import { ensureStages, initialStage, isCoolOffTrigger, listStages, stagesOfKind, type PipelineStage } from '@/lib/pipeline';
+import { findLatestStatusEvent, listStatusEvents, recordStatusEvent, updateStatusEventDate } from '@/lib/status-history';
+
+// Fields the user provides; id, attempt links and timestamps are managed here
+export type ApplicationInput = Omit<JobApplication, "id" | "attempt" | "previousAttemptId" | "createdAt" | "updatedAt">;
+
+// Offered as suggestions; any other source can be typed in
+export const COMMON_SOURCES = ["LinkedIn", "Company website", "Referral", "Recruiter", "Job board"];
+export const COMMON_CURRENCIES = ["USD", "EUR", "GBP", "CAD", "AUD", "SGD", "PHP", "INR", "JPY"];
+
+export const WORK_MODE_LABELS: Record<WorkMode, string> = {
+  remote: "Remote",
+  hybrid: "Hybrid",
+  onsite: "On-site",
+};
+
+export const SENIORITY_LABELS: Record<Seniority, string> = {
+  intern: "Intern",
+  junior: "Junior",
+  mid: "Mid-level",
+  senior: "Senior",
+  lead: "Lead / Staff",
+  manager: "Manager",
+};
+
+export interface ApplicationStats {
+  total: number;
+  // In an open stage past the first
+  inProgress: number;
+  // In a positive stage
+  offers: number;
+  activeCoolOffs: number;
+}
+
+export async function getApplication(id: number) {
+  return db.applications.get(id);
+}
+
+export type PageRequest = Partial<Pick<ApplicationQuery, "after" | "before">>;
+
+export function pageCursor(app: JobApplication, query: ApplicationQuery): PageCursor {
+  return { value: app[query.sort], id: app.id! };
+}
+
+// Keyset pagination on the [sort column+id] indexes: a page picks up right
+// after the row it is given, so later pages cost no more than the first.
+// Without a cursor it returns the first `limit` rows.
+export async function listApplications(query: ApplicationQuery, limit: number, { after, before }: PageRequest = {}) {
+  const index = `[${query.sort}+id]`;
+  // Paging backwards walks the index the other way, then flips the rows
+  const descending = (query.direction === "desc") !== !!before;
+  const cursor = after ?? before;
+
+  let collection = !cursor
+    ? db.applications.orderBy(index)
+    : descending
+      ? db.applications.where(index).below([cursor.value, cursor.id])
+      : db.applications.where(index).above([cursor.value, cursor.id]);
+  if (descending) collection = collection.reverse();
+  if (hasActiveFilters(query)) collection = collection.filter(app => matchesQuery(app, query));
+
+  const items = await collection.limit(limit).toArray();
+  return before ? items.reverse() : items;
+}
+
+// One batch of infinite scroll: the rows after `after`, or from the start,
+// through `through` once a later batch starts there, else the next `limit`.
+// Bounding a loaded batch by the next one's cursor keeps rows added inside
+// it from pushing others out of view.
+export async function listApplicationBatch(
+  query: ApplicationQuery,
+  limit: number,
+  after: PageCursor | null,
+  through: PageCursor | null,
+) {
+  if (!through) return listApplications(query, limit, { after });
+
+  const index = `[${query.sort}+id]`;
+  const afterKey = after ? [after.value, after.id] : null;
+  const throughKey = [through.value, through.id];
+  let collection = query.direction === "desc"
+    ? db.applications.where(index).between(throughKey, afterKey ?? Dexie.maxKey, true, !afterKey).reverse()
+    : db.applications.where(index).between(afterKey ?? Dexie.minKey, throughKey, !afterKey, true);
+  if (hasActiveFilters(query)) collection = collection.filter(app => matchesQuery(app, query));
+  return collection.toArray();
+}
+
+// How many matching rows come up to and including the cursor in the
+// query's order, which gives a page's position from its first row
+export async function countApplicationsThrough(query: ApplicationQuery, cursor: PageCursor) {
+  const index = `[${query.sort}+id]`;
+  const key = [cursor.value, cursor.id];
+  const range = query.direction === "desc"
+    ? db.applications.where(index).aboveOrEqual(key)
+    : db.applications.where(index).belowOrEqual(key);
+  return hasActiveFilters(query) ? range.filter(app => matchesQuery(app, query)).count() : range.count();
+}
+
+// Every application the query matches, for selecting past the current page
+export async function listApplicationIds(query: ApplicationQuery) {
+  const collection = hasActiveFilters(query)
+    ? db.applications.filter(app => matchesQuery(app, query))
+    : db.applications.toCollection();
+  return collection.primaryKeys();
+}
+
+// Only a filtered count has to look at the records
+export async function countApplications(query?: ApplicationQuery) {
+  return query && hasActiveFilters(query)
+    ? db.applications.filter(app => matchesQuery(app, query)).count()
+    : db.applications.count();
+}
+
+// Every stage of the pipeline with its applications, most recently applied first
+export async function listApplicationsByStatus() {
+  const stages = await listStages();
+  return Promise.all(stages.map(async ({ name: status }) => ({
+    status,
+    applications: await db.applications.where('status').equals(status).reverse().sortBy('appliedDate'),
+  })));
+}
+
+// Applications whose cool-off ends after today, soonest first
+export async function listActiveCoolOffs() {
+  return db.applications.where('coolOffEnds').above(today()).sortBy('coolOffEnds');
+}
+
+// Identifies "the same application" across devices and imports
+export function applicationKey(app: Pick<JobApplication, "company" | "jobTitle" | "location">) {
+  return [app.company, app.jobTitle, app.location].map(part => part.trim().toLowerCase()).join("|");
+}
+
+// Most recent application to the same company, job title and location,
+// ignoring case. A new application to the same role becomes its next attempt.
+// Trashed attempts count too, so deleting one doesn't lift its cool-off.
+export async function findLatestAttempt(
+  app: Pick<JobApplication, "company" | "jobTitle" | "location">,
+  excludeId?: number | null,
+) {
+  return (await findAttempts(app, excludeId))[0]?.application;
+}
+
+// Every attempt in the chain the application belongs to, first attempt first
+export async function listAttempts(id: number) {
+  const app = await db.applications.get(id);
+  if (!app) return [];
+
+  const chain = [app];
+  let previousId = app.previousAttemptId;
+  while (previousId !== undefined) {
+    const previous = await db.applications.get(previousId);
+    if (!previous) break;
+    chain.unshift(previous);
+    previousId = previous.previousAttemptId;
+  }
+
+  let next = await nextAttempt(id);
+  while (next) {
+    chain.push(next);
+    next = await nextAttempt(next.id!);
+  }
+
+  return chain;
+}
+
+// The chain with the date each attempt reached its current status
+export async function listAttemptHistory(id: number) {
+  const attempts = await listAttempts(id);
+  return Promise.all(attempts.map(async application => ({
+    application,
+    statusDate: (await findLatestStatusEvent(application.id!, application.status))?.date ?? application.appliedDate,
+  })));
+}
+
+async function nextAttempt(id: number) {
+  return db.applications.where('previousAttemptId').equals(id).first();
+}
+
+// Live and trashed attempts at the role, latest first
+async function findAttempts(
+  app: Pick<JobApplication, "company" | "jobTitle" | "location">,
+  excludeId?: number | null,
+): Promise<Array<{ application: JobApplication; trashEntry?: TrashedApplication }>> {
+  const key = applicationKey(app);
+  const live = await db.applications
+    .where('company').equalsIgnoreCase(app.company.trim())
+    .and(existing => applicationKey(existing) === key && existing.id !== excludeId)
+    .toArray();
+  const trashed = await db.trash.filter(entry => applicationKey(entry.application) === key).toArray();
+
+  return [
+    ...live.map(application => ({ application })),
+    ...trashed.map(entry => ({ application: entry.application, trashEntry: entry })),
+  ].sort((a, b) => b.application.attempt - a.application.attempt || b.application.appliedDate.localeCompare(a.application.appliedDate));
+}
+
+// Create and update compute the cool-off end date themselves
+export type ApplicationFields = Omit<ApplicationInput, "coolOffEnds">;
+
+// Tables touched when an application and its cool-off are written together
+const writeTables = () => [db.applications, db.statusEvents, db.coolOffPolicies, db.companies, db.settings, db.trash];
+
+// The rejection date only matters for applications in a cool-off trigger
+// stage; it defaults to today. An earlier application to the same role is linked as the previous attempt.
+export async function createApplication(fields: ApplicationFields, rejectedDate?: string) {
+  const timestamp = new Date().toISOString();
+  return db.transaction('rw', writeTables(), async () => {
+    await ensureCompany(fields.company);
+    const [previous] = await findAttempts(fields);
+    const id = await db.applications.add({
+      ...fields,
+      attempt: previous ? previous.application.attempt + 1 : 1,
+      // A trashed attempt is linked past, the way trashing it relinked its
+      // later attempts, and is linked back in if it is restored
+      previousAttemptId: previous?.trashEntry ? previous.application.previousAttemptId : previous?.application.id,
+      coolOffEnds: fields.appliedDate,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+    if (previous?.trashEntry) {
+      await db.trash.update(previous.trashEntry.id!, { nextAttemptIds: [...previous.trashEntry.nextAttemptIds, id] });
+    }
+
+    const stages = await listStages();
+    await recordStatusEvent(id, initialStage(stages), fields.appliedDate);
+    if (fields.status !== initialStage(stages)) {
+      await recordStatusEvent(id, fields.status, statusDate(stages, fields.status, rejectedDate));
+    }
+    await recalculateCoolOff(id);
+    return id;
+  });
+}
+
+// Bulk create in one transaction, so a failure leaves nothing half-imported
+export async function createApplications(rows: Array<{ fields: ApplicationFields; rejectedDate?: string }>) {
+  return db.transaction('rw', writeTables(), async () => {
+    const ids: number[] = [];
+    for (const row of rows) {
+      ids.push(await createApplication(row.fields, row.rejectedDate));
+    }
+    return ids;
+  });
+}
+
+// Keeps the status history in step with the edited dates, then recomputes
+// the cool-off since any of them may have moved it
+export async function updateApplication(id: number, changes: Partial<ApplicationFields>, rejectedDate?: string) {
+  await db.transaction('rw', writeTables(), async () => {
+    const existing = await db.applications.get(id);
+    if (!existing) return;
+
+    const stages = await listStages();
+    if (changes.company) await ensureCompany(changes.company);
+    if (changes.appliedDate && changes.appliedDate !== existing.appliedDate) {
+      const events = await listStatusEvents(id);
+      const appliedEvent = events.find(event => event.status === initialStage(stages) && event.date === existing.appliedDate);
+      if (appliedEvent) await updateStatusEventDate(appliedEvent.id!, changes.appliedDate);
+    }
+
+    const status = changes.status ?? existing.status;
+    if (status !== existing.status) {
+      await recordStatusEvent(id, status, statusDate(stages, status, rejectedDate));
+    } else if (isCoolOffTrigger(stages, status) && rejectedDate) {
+      const rejection = await findLatestStatusEvent(id, status);
+      if (rejection) await updateStatusEventDate(rejection.id!, rejectedDate);
+    }
+
+    await db.applications.update(id, {
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    });
+    await recalculateCoolOff(id);
+  });
+}
+
+// Notes don't affect the cool-off, so this skips the recalculation
+export async function updateApplicationNotes(id: number, notes: string) {
+  await db.applications.update(id, {
+    notes,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// What undoing a status change needs to put back
+export interface StatusChange {
+  applicationId: number;
+  previousStatus: ApplicationStatus;
+  eventId: number;
+}
+
+// Moves an application to a new stage as of the given date
+export async function changeApplicationStatus(id: number, status: ApplicationStatus, date = today()) {
+  return db.transaction('rw', writeTables(), async (): Promise<StatusChange | undefined> => {
+    const app = await db.applications.get(id);
+    if (!app || app.status === status) return undefined;
+
+    const eventId = await recordStatusEvent(id, status, date);
+    await db.applications.update(id, {
+      status,
+      updatedAt: new Date().toISOString(),
+    });
+    await recalculateCoolOff(id);
+    return { applicationId: id, previousStatus: app.status, eventId };
+  });
+}
+
+// Applications that have changed status again since, or are gone, are left alone
+export async function revertStatusChanges(changes: StatusChange[]) {
+  await db.transaction('rw', writeTables(), async () => {
+    for (const { applicationId, previousStatus, eventId } of changes) {
+      const app = await db.applications.get(applicationId);
+      const event = await db.statusEvents.get(eventId);
+      if (!app || !event || app.status !== event.status) continue;
+
+      await db.statusEvents.delete(eventId);
+      await db.applications.update(applicationId, {
+        status: previousStatus,
+        updatedAt: new Date().toISOString(),
+      });
+      await recalculateCoolOff(applicationId);
+    }
+  });
+}
+
+// Back-dating the event for the first stage also moves the applied date
+export async function moveStatusEvent(event: StatusEvent, date: string) {
+  await db.transaction('rw', writeTables(), async () => {
+    const app = await db.applications.get(event.applicationId);
+    if (!app) return;
+
+    await updateStatusEventDate(event.id!, date);
+    if (event.status === initialStage(await listStages()) && event.date === app.appliedDate) {
+      await db.applications.update(app.id!, { appliedDate: date });
+    }
+    await recalculateCoolOff(app.id!);
+  });
+}
+
+// The cool-off counts from the rejection when the company's policy (or the
+// application) says so and the application is in a cool-off trigger stage,
+// otherwise from the applied date. The application keeps its own start type,
+// so its choice applies again once no policy overrides it.
+export async function recalculateCoolOff(id: number) {
+  const app = await db.applications.get(id);
+  if (!app) return;
+
+  const terms = await getCoolOffTerms(app.company, app.jobTitle, app.coolOffStartType);
+  const rejection = terms.startEvent === "rejection" && isCoolOffTrigger(await listStages(), app.status)
+    ? await findLatestStatusEvent(id, app.status)
+    : undefined;
+
+  await db.applications.update(id, {
+    coolOffStartType: app.coolOffStartType ?? terms.startEvent,
+    coolOffEnds: addMonths(rejection?.date ?? app.appliedDate, terms.durationMonths),
+  });
+}
+
+function statusDate(stages: PipelineStage[], status: ApplicationStatus, rejectedDate?: string) {
+  return isCoolOffTrigger(stages, status) && rejectedDate ? rejectedDate : today();
+}
+
+// "USD 80,000 – 100,000", or whichever end of the range is known; empty
+// when neither is
+export function formatSalary({ salaryMin: min, salaryMax: max, salaryCurrency }: Pick<JobApplication, "salaryMin" | "salaryMax" | "salaryCurrency">) {
+  const format = (value: number) => value.toLocaleString();
+  const range = min !== undefined && max !== undefined
+    ? min === max ? format(min) : `${format(min)} – ${format(max)}`
+    : min !== undefined ? `${format(min)}+`
+    : max !== undefined ? `Up to ${format(max)}`
+    : "";
+  return range && salaryCurrency ? `${salaryCurrency} ${range}` : range;
+}
+
+// Splits comma-separated input, dropping blanks and repeats that differ only in case
+export function parseTags(value: string) {
+  const tags = new Map<string, string>();
+  for (const tag of value.split(",").map(part => part.trim()).filter(Boolean)) {
+    if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  }
+  return [...tags.values()];
+}
+
+export type BulkAction =
+  | { type: "status"; status: ApplicationStatus }
+  | { type: "coolOffStartType"; coolOffStartType: CoolOffStartType }
+  | { type: "tag"; tag: string }
+  | { type: "delete" };
+
+// How many of the selected applications the action actually changed, and
+// what undoing a status change or deletion needs
+export interface BulkResult {
+  changed: number;
+  unchanged: number;
+  statusChanges: StatusChange[];
+  trashIds: number[];
+}
+
+// One transaction for the whole selection, so a failure part-way through
+// leaves every application as it was
+export async function applyBulkAction(ids: number[], action: BulkAction): Promise<BulkResult> {
+  return db.transaction('rw', [...writeTables(), db.interviews, db.contacts, db.attachments], async () => {
+    const result: BulkResult = { changed: 0, unchanged: 0, statusChanges: [], trashIds: [] };
+    for (const id of ids) {
+      const app = await db.applications.get(id);
+      if (app && await applyToApplication(app, action, result)) {
+        result.changed++;
+      } else {
+        result.unchanged++;
+      }
+    }
+    return result;
+  });
+}
+
+async function applyToApplication(app: JobApplication, action: BulkAction, result: BulkResult) {
+  const id = app.id!;
+  switch (action.type) {
+    case "status": {
+      const change = await changeApplicationStatus(id, action.status);
+      if (change) result.statusChanges.push(change);
+      return !!change;
+    }
+    case "coolOffStartType": {
+      // Stored even where a company policy decides the start for now
+      if (app.coolOffStartType === action.coolOffStartType) return false;
+      await db.applications.update(id, {
+        coolOffStartType: action.coolOffStartType,
+        updatedAt: new Date().toISOString(),
+      });
+      await recalculateCoolOff(id);
+      return true;
+    }
+    case "tag": {
+      const tags = parseTags([...(app.tags ?? []), action.tag].join(","));
+      if (tags.length === (app.tags ?? []).length) return false;
+      await db.applications.update(id, {
+        tags,
+        updatedAt: new Date().toISOString(),
+      });
+      return true;
+    }
+    case "delete": {
+      const trashId = await trashApplication(id);
+      if (trashId !== undefined) result.trashIds.push(trashId);
+      return trashId !== undefined;
+    }
+  }
+}
+
+// Wipes the table, and the trash, and writes the given records in a single
+// transaction. Contacts are kept but lose their links to the old applications, and any
+// status the pipeline lacks is added to it.
+export async function replaceAllApplications(apps: Array<ApplicationInput & Partial<JobApplication>>) {
+  const timestamp = new Date().toISOString();
+  await db.transaction('rw', [db.applications, db.statusEvents, db.interviews, db.contacts, db.companies, db.attachments, db.settings, db.trash], async () => {
+    await db.applications.clear();
+    await db.trash.clear();
+    await db.statusEvents.clear();
+    await db.interviews.clear();
+    await db.attachments.clear();
+    await db.contacts.toCollection().modify({ applicationIds: [] });
+
+    const records = apps.map(app => ({
+      ...app,
+      attempt: app.attempt ?? 1,
+      createdAt: app.createdAt ?? timestamp,
+      updatedAt: app.updatedAt ?? timestamp,
+    }));
+    await ensureStages(records.map(app => app.status));
+    const initial = initialStage(await listStages());
+    const ids = await db.applications.bulkAdd(records, { allKeys: true });
+    await db.statusEvents.bulkAdd(records.flatMap((app, i) => initialStatusEvents({ ...app, id: ids[i] }, initial)));
+    for (const app of records) await ensureCompany(app.company);
+  });
+}
+
+// Every count comes from an index, so none of them reads the records
+export async function getApplicationStats(): Promise<ApplicationStats> {
+  const stages = await listStages();
+  const inProgressStages = stagesOfKind(stages, "open").filter(name => name !== initialStage(stages));
+
+  const total = await db.applications.count();
+  const inProgress = await db.applications.where('status').anyOf(inProgressStages).count();
+  const offers = await db.applications.where('status').anyOf(stagesOfKind(stages, "positive")).count();
+  const activeCoolOffs = await db.applications.where('coolOffEnds').above(today()).count();
+
+  return { total, inProgress, offers, activeCoolOffs };
+}
@@ -0,0 +1,55 @@
+import { db, type AttachmentKind } from '@/lib/db';
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  "resume": "Resume",
+  "cover-letter": "Cover Letter",
+  "job-description": "Job Description",
+  "other": "Other",
+};
+
+// Browsers cap IndexedDB by free disk space; this keeps one file from eating it
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// Types a browser displays without running anything in them. Any other file,
+// HTML and SVG included, would run with the app's origin if opened, so it is
+// only offered as a download.
+const VIEWABLE_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/gif", "image/webp", "image/avif", "text/plain"];
+
+export function isViewable(type: string) {
+  return VIEWABLE_TYPES.includes(type.split(";")[0].trim().toLowerCase());
+}
+
+// Oldest first
+export async function listAttachments(applicationId: number) {
+  return db.attachments.where('applicationId').equals(applicationId).sortBy('createdAt');
+}
+
+export async function addAttachment(applicationId: number, file: File, kind: AttachmentKind) {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+  }
+
+  return db.attachments.add({
+    applicationId,
+    kind,
+    name: file.name,
+    type: file.type || "application/octet-stream",
+    size: file.size,
+    blob: file,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export async function deleteAttachment(id: number) {
+  return db.attachments.delete(id);
+}
+
+export async function deleteAttachments(applicationId: number) {
+  return db.attachments.where('applicationId').equals(applicationId).delete();
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
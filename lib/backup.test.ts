@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from '@/lib/db';
+import { createApplication, listAttempts, type ApplicationFields } from '@/lib/applications';
+import { createCoolOffPolicy } from '@/lib/cool-off-policies';
+import { trashApplication } from '@/lib/trash';
+import { BACKUP_FORMAT, BACKUP_VERSION, createBackup, importBackup, parseBackup, previewImport, type Backup } from '@/lib/backup';
+
+beforeEach(async () => {
+  await db.delete();
+  await db.open();
+});
+
+function fields(overrides: Partial<ApplicationFields> = {}): ApplicationFields {
+  return {
+    company: "Acme",
+    jobTitle: "Engineer",
+    location: "Remote",
+    status: "Applied",
+    appliedDate: "2020-01-15",
+    coolOffStartType: "application",
+    ...overrides,
+  };
+}
+
+// A backup taken of whatever `seed` writes, read back as the import would
+async function backupOf(seed: () => Promise<unknown>) {
+  await seed();
+  const text = JSON.stringify(await createBackup());
+  await db.delete();
+  await db.open();
+  return parseBackup(text);
+}
+
+function backupText(data: Record<string, unknown>, overrides: Record<string, unknown> = {}) {
+  return JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: "", data, ...overrides });
+}
+
+const APPLICATION = {
+  id: 1,
+  company: "Acme",
+  jobTitle: "Engineer",
+  location: "Remote",
+  status: "Applied",
+  appliedDate: "2020-01-15",
+  coolOffEnds: "2020-07-15",
+  coolOffStartType: "application",
+};
+
+describe("parseBackup", () => {
+  it.each([
+    ["text that isn't JSON", "not json", "The file is not valid JSON"],
+    ["other JSON", JSON.stringify({ format: "other" }), "The file is not a job application backup"],
+    ["newer versions", backupText({ applications: [] }, { version: BACKUP_VERSION + 1 }), `Backup version ${BACKUP_VERSION + 1} is not supported by this version of the app`],
+    ["tables that aren't lists", backupText({ applications: {} }), '"applications" must be a list'],
+    ["malformed dates", backupText({ applications: [{ ...APPLICATION, appliedDate: "15/01/2020" }] }), "Application 1 has an invalid appliedDate"],
+    ["dangling attempt links", backupText({ applications: [{ ...APPLICATION, previousAttemptId: 9 }] }), "Application 1 links to an unknown previous attempt"],
+    ["orphaned status events", backupText({ applications: [APPLICATION], statusEvents: [{ applicationId: 2, status: "Applied", date: "2020-01-15" }] }), "Status event 1 belongs to an unknown application"],
+  ])("rejects %s", (_, text, message) => {
+    expect(() => parseBackup(text)).toThrow(message);
+  });
+
+  it("fills in what older backups lack", () => {
+    const backup = parseBackup(backupText({ applications: [APPLICATION] }, { version: 1 }));
+    expect(backup.data.applications[0].attempt).toBe(1);
+    expect(backup.data.stages).toEqual([]);
+    expect(backup.data.statusEvents).toEqual([]);
+  });
+});
+
+describe("importBackup", () => {
+  let backup: Backup;
+
+  beforeEach(async () => {
+    backup = await backupOf(async () => {
+      await createApplication(fields({ status: "Rejected" }), "2020-02-01");
+      await createApplication(fields({ appliedDate: "2021-01-10" }));
+      await createApplication(fields({ company: "Globex" }));
+      await createCoolOffPolicy({ company: "Acme", roleFamily: "", durationMonths: 12, startEvent: "rejection", scope: "exact-role" });
+    });
+  });
+
+  it("matches applications on role and attempt, ignoring case", async () => {
+    const local = await createApplication(fields({ company: "ACME", jobTitle: "engineer" }));
+    await createCoolOffPolicy({ company: "acme", roleFamily: "", durationMonths: 3, startEvent: "application", scope: "exact-role" });
+
+    const preview = await previewImport(backup);
+    expect(preview.added.map(app => [app.company, app.attempt])).toEqual([["Acme", 2], ["Globex", 1]]);
+    expect(preview.changed.map(change => change.fields)).toEqual([["status", "coolOffEnds"]]);
+    expect(preview.policiesChanged).toBe(1);
+
+    await importBackup(backup, "merge");
+    expect(await db.applications.count()).toBe(3);
+    expect(await db.coolOffPolicies.count()).toBe(1);
+
+    const merged = await db.applications.get(local);
+    expect(merged).toMatchObject({ status: "Rejected", coolOffEnds: "2021-02-01" });
+    const events = await db.statusEvents.where('applicationId').equals(local).toArray();
+    expect(events.map(event => [event.status, event.date])).toEqual([["Applied", "2020-01-15"], ["Rejected", "2020-02-01"]]);
+  });
+
+  it("links merged attempts to their local ids", async () => {
+    await importBackup(backup, "merge");
+    await importBackup(backup, "merge");
+
+    const acme = await db.applications.where('company').equals("Acme").sortBy('attempt');
+    expect(acme).toHaveLength(2);
+    expect(acme[1].previousAttemptId).toBe(acme[0].id);
+    expect((await listAttempts(acme[1].id!)).map(app => app.id)).toEqual(acme.map(app => app.id));
+  });
+
+  it("replaces everything, trash included", async () => {
+    await trashApplication(await createApplication(fields({ company: "Initech" })));
+    await createApplication(fields({ company: "Hooli" }));
+
+    await importBackup(backup, "replace");
+    expect((await db.applications.toArray()).map(app => app.company).sort()).toEqual(["Acme", "Acme", "Globex"]);
+    expect(await db.trash.count()).toBe(0);
+  });
+});
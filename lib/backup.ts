@@ -0,0 +1,487 @@
+import {
+  COOL_OFF_SCOPES,
+  COOL_OFF_START_TYPES,
+  SENIORITIES,
+  WORK_MODES,
+  db,
+  withoutId,
+  type Attachment,
+  type Company,
+  type Contact,
+  type CoolOffPolicy,
+  type InterviewRound,
+  type JobApplication,
+  type Seniority,
+  type StatusEvent,
+  type WorkMode,
+} from '@/lib/db';
+import { OUTCOME_LABELS, ROUND_TYPE_LABELS } from '@/lib/interviews';
+import { CONTACT_ROLE_LABELS } from '@/lib/contacts';
+import { ensureCompany } from '@/lib/companies';
+import { recalculateCompanyCoolOffs } from '@/lib/cool-off-policies';
+import { ATTACHMENT_KIND_LABELS } from '@/lib/attachments';
+import { applicationKey } from '@/lib/applications';
+import { STAGE_KIND_LABELS, ensureStages, listStages, mergeStages, saveStages, type PipelineStage } from '@/lib/pipeline';
+
+export const BACKUP_FORMAT = "zhiwei-zzq-backup";
+// Bump when the file layout changes; older files must keep importing.
+// v2: attachments, with their contents base64-encoded
+// v3: the pipeline's stages
+export const BACKUP_VERSION = 3;
+
+export type ImportMode = "merge" | "replace";
+
+export interface BackupData {
+  applications: JobApplication[];
+  statusEvents: StatusEvent[];
+  coolOffPolicies: CoolOffPolicy[];
+  interviews: InterviewRound[];
+  contacts: Contact[];
+  companies: Company[];
+  attachments: BackupAttachment[];
+  // Empty in backups taken before pipelines were configurable
+  stages: PipelineStage[];
+}
+
+// Blobs don't survive JSON, so the file contents travel as base64
+export type BackupAttachment = Omit<Attachment, "blob"> & { data: string };
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: BackupData;
+}
+
+export interface ApplicationChange {
+  existing: JobApplication;
+  incoming: JobApplication;
+  fields: Array<keyof JobApplication>;
+}
+
+// What a merge would do; a replace simply swaps every table
+export interface ImportPreview {
+  added: JobApplication[];
+  changed: ApplicationChange[];
+  unchanged: number;
+  policiesAdded: number;
+  policiesChanged: number;
+  current: { applications: number; coolOffPolicies: number };
+}
+
+// Fields compared when deciding whether a matched application changed
+const COMPARED_FIELDS: Array<keyof JobApplication> = ["status", "appliedDate", "coolOffEnds", "coolOffStartType"];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Every table a backup covers. The pipeline lives among the other settings,
+// so it is read and written alongside rather than cleared with these.
+const backupTables = () => [db.applications, db.statusEvents, db.coolOffPolicies, db.interviews, db.contacts, db.companies, db.attachments];
+
+// Attachments are encoded after the read transaction, since awaiting a blob
+// read inside it would commit the transaction early
+export async function createBackup(): Promise<Backup> {
+  const { attachments, ...data } = await db.transaction('r', [...backupTables(), db.settings], async () => ({
+    applications: await db.applications.toArray(),
+    statusEvents: await db.statusEvents.toArray(),
+    coolOffPolicies: await db.coolOffPolicies.toArray(),
+    interviews: await db.interviews.toArray(),
+    contacts: await db.contacts.toArray(),
+    companies: await db.companies.toArray(),
+    attachments: await db.attachments.toArray(),
+    stages: await listStages(),
+  }));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: {
+      ...data,
+      attachments: await Promise.all(attachments.map(encodeAttachment)),
+    },
+  };
+}
+
+export function backupFilename(backup: Backup) {
+  return `job-applications-${backup.exportedAt.split("T")[0]}.json`;
+}
+
+// Throws with a message fit for showing to the user when the file is unusable
+export function parseBackup(text: string): Backup {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new Error("The file is not a job application backup");
+  }
+  if (typeof raw.version !== "number" || raw.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${String(raw.version)} is not supported by this version of the app`);
+  }
+  if (!isRecord(raw.data)) {
+    throw new Error("The backup has no data");
+  }
+
+  const applications = requireArray(raw.data.applications, "applications");
+  const statusEvents = requireArray(raw.data.statusEvents ?? [], "statusEvents");
+  const coolOffPolicies = requireArray(raw.data.coolOffPolicies ?? [], "coolOffPolicies");
+  const interviews = requireArray(raw.data.interviews ?? [], "interviews");
+  const contacts = requireArray(raw.data.contacts ?? [], "contacts");
+  const companies = requireArray(raw.data.companies ?? [], "companies");
+  const attachments = requireArray(raw.data.attachments ?? [], "attachments");
+  const stages = requireArray(raw.data.stages ?? [], "stages");
+
+  applications.forEach((app, i) => validateApplication(app, i));
+  const ids = new Set(applications.map(app => (app as JobApplication).id));
+  applications.forEach((app, i) => {
+    const previousId = (app as JobApplication).previousAttemptId;
+    if (previousId !== undefined && !ids.has(previousId)) {
+      throw new Error(`Application ${i + 1} links to an unknown previous attempt`);
+    }
+  });
+  statusEvents.forEach((event, i) => validateStatusEvent(event, i, ids));
+  coolOffPolicies.forEach((policy, i) => validatePolicy(policy, i));
+  interviews.forEach((round, i) => validateInterview(round, i, ids));
+  contacts.forEach((contact, i) => validateContact(contact, i, ids));
+  companies.forEach((company, i) => validateCompany(company, i));
+  attachments.forEach((attachment, i) => validateAttachment(attachment, i, ids));
+  stages.forEach((stage, i) => validateStage(stage, i));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+    data: {
+      // Backups taken before re-applications existed have no attempt numbers
+      applications: (applications as JobApplication[]).map(app => ({ ...app, attempt: app.attempt ?? 1 })),
+      statusEvents: statusEvents as StatusEvent[],
+      coolOffPolicies: coolOffPolicies as CoolOffPolicy[],
+      interviews: interviews as InterviewRound[],
+      contacts: contacts as Contact[],
+      companies: companies as Company[],
+      attachments: attachments as BackupAttachment[],
+      stages: stages as PipelineStage[],
+    },
+  };
+}
+
+export async function previewImport(backup: Backup): Promise<ImportPreview> {
+  const existingApps = await db.applications.toArray();
+  const existingPolicies = await db.coolOffPolicies.toArray();
+  const byKey = new Map(existingApps.map(app => [attemptKey(app), app]));
+  const policyKeys = new Map(existingPolicies.map(policy => [policyKey(policy), policy]));
+
+  const preview: ImportPreview = {
+    added: [],
+    changed: [],
+    unchanged: 0,
+    policiesAdded: 0,
+    policiesChanged: 0,
+    current: { applications: existingApps.length, coolOffPolicies: existingPolicies.length },
+  };
+
+  for (const incoming of backup.data.applications) {
+    const existing = byKey.get(attemptKey(incoming));
+    if (!existing) {
+      preview.added.push(incoming);
+      continue;
+    }
+
+    const fields = COMPARED_FIELDS.filter(field => existing[field] !== incoming[field]);
+    if (fields.length > 0) {
+      preview.changed.push({ existing, incoming, fields });
+    } else {
+      preview.unchanged++;
+    }
+  }
+
+  for (const policy of backup.data.coolOffPolicies) {
+    const existing = policyKeys.get(policyKey(policy));
+    if (!existing) {
+      preview.policiesAdded++;
+    } else if (existing.durationMonths !== policy.durationMonths || existing.startEvent !== policy.startEvent || existing.scope !== policy.scope) {
+      preview.policiesChanged++;
+    }
+  }
+
+  return preview;
+}
+
+// Replace wipes every table first, trash included, and takes the backup's
+// pipeline, when it has one. Merge matches applications on company,
+// job title, location and attempt number: matches take the backup's values
+// and gain any status events they are missing, everything else is added.
+// Contacts match on name and company and gain the backup's links, companies
+// match on name, and stages the pipeline lacks are added. Attempt and
+// contact links are re-pointed at the ids the records end up with.
+export async function importBackup(backup: Backup, mode: ImportMode) {
+  const { applications, statusEvents, coolOffPolicies, interviews, contacts, companies, stages } = backup.data;
+  const attachments = backup.data.attachments.map(decodeAttachment);
+
+  await db.transaction('rw', [...backupTables(), db.settings, db.trash], async () => {
+    if (mode === "replace") {
+      // Trashed applications from the old data would otherwise still count
+      // toward lockouts and attempts, and could be restored on top
+      await Promise.all([...backupTables(), db.trash].map(table => table.clear()));
+      await db.applications.bulkAdd(applications);
+      await db.statusEvents.bulkAdd(statusEvents);
+      await db.coolOffPolicies.bulkAdd(coolOffPolicies);
+      await db.interviews.bulkAdd(interviews);
+      await db.contacts.bulkAdd(contacts);
+      await db.companies.bulkAdd(companies);
+      await db.attachments.bulkAdd(attachments);
+      if (stages.length > 0) await saveStages(stages);
+      await ensureCompanies(backup.data);
+      await ensureBackupStages(backup.data);
+      return;
+    }
+
+    const existingApps = await db.applications.toArray();
+    const byKey = new Map(existingApps.map(app => [attemptKey(app), app]));
+    const localIds = new Map<number, number>();
+
+    // Earlier attempts first, so each link target already has its local id
+    for (const app of [...applications].sort((a, b) => a.attempt - b.attempt)) {
+      const incoming = withoutId(app);
+      if (app.previousAttemptId !== undefined) {
+        incoming.previousAttemptId = localIds.get(app.previousAttemptId);
+      }
+
+      const existing = byKey.get(attemptKey(incoming));
+      let id: number;
+
+      if (existing) {
+        id = existing.id!;
+        await db.applications.update(id, { ...incoming });
+      } else {
+        id = await db.applications.add(incoming);
+      }
+      localIds.set(app.id!, id);
+
+      const current = await db.statusEvents.where('applicationId').equals(id).toArray();
+      const seen = new Set(current.map(event => `${event.status}|${event.date}`));
+      const missing = statusEvents
+        .filter(event => event.applicationId === app.id && !seen.has(`${event.status}|${event.date}`))
+        .map(event => ({ ...withoutId(event), applicationId: id }));
+      await db.statusEvents.bulkAdd(missing);
+
+      const currentRounds = await db.interviews.where('applicationId').equals(id).toArray();
+      const seenRounds = new Set(currentRounds.map(round => `${round.roundType}|${round.scheduledAt}`));
+      const missingRounds = interviews
+        .filter(round => round.applicationId === app.id && !seenRounds.has(`${round.roundType}|${round.scheduledAt}`))
+        .map(round => ({ ...withoutId(round), applicationId: id }));
+      await db.interviews.bulkAdd(missingRounds);
+
+      const currentFiles = await db.attachments.where('applicationId').equals(id).toArray();
+      const seenFiles = new Set(currentFiles.map(file => `${file.name}|${file.size}`));
+      const missingFiles = attachments
+        .filter(file => file.applicationId === app.id && !seenFiles.has(`${file.name}|${file.size}`))
+        .map(file => ({ ...withoutId(file), applicationId: id }));
+      await db.attachments.bulkAdd(missingFiles);
+    }
+
+    const existingPolicies = await db.coolOffPolicies.toArray();
+    const policyKeys = new Map(existingPolicies.map(policy => [policyKey(policy), policy]));
+    for (const policy of coolOffPolicies.map(withoutId)) {
+      const existing = policyKeys.get(policyKey(policy));
+      if (existing) {
+        await db.coolOffPolicies.update(existing.id!, policy);
+      } else {
+        await db.coolOffPolicies.add(policy);
+      }
+    }
+    // Merged policies may now govern applications that were already here
+    for (const company of new Set(coolOffPolicies.map(policy => policy.company.toLowerCase()))) {
+      await recalculateCompanyCoolOffs(company);
+    }
+
+    const existingContacts = await db.contacts.toArray();
+    const contactKeys = new Map(existingContacts.map(contact => [contactKey(contact), contact]));
+    for (const contact of contacts.map(withoutId)) {
+      const applicationIds = contact.applicationIds.map(id => localIds.get(id)!);
+      const existing = contactKeys.get(contactKey(contact));
+      if (existing) {
+        await db.contacts.update(existing.id!, {
+          ...contact,
+          applicationIds: [...new Set([...existing.applicationIds, ...applicationIds])],
+        });
+      } else {
+        await db.contacts.add({ ...contact, applicationIds });
+      }
+    }
+
+    for (const company of companies.map(withoutId)) {
+      const existing = await db.companies.where('name').equalsIgnoreCase(company.name).first();
+      if (existing) {
+        await db.companies.update(existing.id!, company);
+      } else {
+        await db.companies.add(company);
+      }
+    }
+    await mergeStages(stages);
+    await ensureCompanies(backup.data);
+    await ensureBackupStages(backup.data);
+  });
+}
+
+// Backups taken before company records existed only name them
+async function ensureCompanies(data: BackupData) {
+  for (const record of [...data.applications, ...data.coolOffPolicies, ...data.contacts]) {
+    await ensureCompany(record.company);
+  }
+}
+
+// Likewise for stages, in backups taken before the pipeline was included
+async function ensureBackupStages(data: BackupData) {
+  await ensureStages([...data.applications, ...data.statusEvents].map(record => record.status));
+}
+
+async function encodeAttachment({ blob, ...attachment }: Attachment): Promise<BackupAttachment> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  // Chunked so large files don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return { ...attachment, data: btoa(binary) };
+}
+
+function decodeAttachment({ data, ...attachment }: BackupAttachment): Attachment {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { ...attachment, blob: new Blob([bytes], { type: attachment.type }) };
+}
+
+function attemptKey(app: JobApplication) {
+  return `${applicationKey(app)}|${app.attempt}`;
+}
+
+function policyKey(policy: Pick<CoolOffPolicy, "company" | "roleFamily">) {
+  return `${policy.company.toLowerCase()}|${policy.roleFamily.toLowerCase()}`;
+}
+
+function contactKey(contact: Pick<Contact, "name" | "company">) {
+  return `${contact.name.toLowerCase()}|${contact.company.toLowerCase()}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireArray(value: unknown, name: string): unknown[] {
+  if (!Array.isArray(value)) throw new Error(`"${name}" must be a list`);
+  return value;
+}
+
+function validateApplication(value: unknown, index: number) {
+  const where = `Application ${index + 1}`;
+  if (!isRecord(value)) throw new Error(`${where} is not an object`);
+  if (typeof value.id !== "number") throw new Error(`${where} has no id`);
+  for (const field of ["company", "jobTitle", "location"]) {
+    if (typeof value[field] !== "string" || !value[field]) throw new Error(`${where} is missing ${field}`);
+  }
+  for (const field of ["appliedDate", "coolOffEnds"]) {
+    if (typeof value[field] !== "string" || !DATE_PATTERN.test(value[field])) {
+      throw new Error(`${where} has an invalid ${field}`);
+    }
+  }
+  if (typeof value.status !== "string" || !value.status.trim()) {
+    throw new Error(`${where} has no status`);
+  }
+  if (!COOL_OFF_START_TYPES.includes(value.coolOffStartType as JobApplication["coolOffStartType"])) {
+    throw new Error(`${where} has an unknown cool-off start "${String(value.coolOffStartType)}"`);
+  }
+  if (value.attempt !== undefined && (typeof value.attempt !== "number" || value.attempt < 1)) {
+    throw new Error(`${where} has an invalid attempt number`);
+  }
+  if (value.source !== undefined && typeof value.source !== "string") {
+    throw new Error(`${where} has an invalid source`);
+  }
+  if (value.notes !== undefined && typeof value.notes !== "string") {
+    throw new Error(`${where} has invalid notes`);
+  }
+  for (const field of ["postingUrl", "salaryCurrency"]) {
+    if (value[field] !== undefined && typeof value[field] !== "string") throw new Error(`${where} has an invalid ${field}`);
+  }
+  for (const field of ["salaryMin", "salaryMax"]) {
+    if (value[field] !== undefined && (typeof value[field] !== "number" || value[field] < 0)) {
+      throw new Error(`${where} has an invalid ${field}`);
+    }
+  }
+  if (value.workMode !== undefined && !WORK_MODES.includes(value.workMode as WorkMode)) {
+    throw new Error(`${where} has an unknown work mode "${String(value.workMode)}"`);
+  }
+  if (value.seniority !== undefined && !SENIORITIES.includes(value.seniority as Seniority)) {
+    throw new Error(`${where} has an unknown seniority "${String(value.seniority)}"`);
+  }
+  if (value.tags !== undefined && (!Array.isArray(value.tags) || value.tags.some(tag => typeof tag !== "string"))) {
+    throw new Error(`${where} has invalid tags`);
+  }
+}
+
+function validateStatusEvent(value: unknown, index: number, applicationIds: Set<number | undefined>) {
+  const where = `Status event ${index + 1}`;
+  if (!isRecord(value)) throw new Error(`${where} is not an object`);
+  if (!applicationIds.has(value.applicationId as number)) throw new Error(`${where} belongs to an unknown application`);
+  if (typeof value.status !== "string" || !value.status.trim()) {
+    throw new Error(`${where} has no status`);
+  }
+  if (typeof value.date !== "string" || !DATE_PATTERN.test(value.date)) throw new Error(`${where} has an invalid date`);
+}
+
+function validateInterview(value: unknown, index: number, applicationIds: Set<number | undefined>) {
+  const where = `Interview ${index + 1}`;
+  if (!isRecord(value)) throw new Error(`${where} is not an object`);
+  if (!applicationIds.has(value.applicationId as number)) throw new Error(`${where} belongs to an unknown application`);
+  if (!(String(value.roundType) in ROUND_TYPE_LABELS)) throw new Error(`${where} has an unknown round type`);
+  if (!(String(value.outcome) in OUTCOME_LABELS)) throw new Error(`${where} has an unknown outcome`);
+  if (typeof value.scheduledAt !== "string" || !value.scheduledAt) throw new Error(`${where} has no date`);
+}
+
+function validateContact(value: unknown, index: number, applicationIds: Set<number | undefined>) {
+  const where = `Contact ${index + 1}`;
+  if (!isRecord(value)) throw new Error(`${where} is not an object`);
+  if (typeof value.name !== "string" || !value.name) throw new Error(`${where} is missing name`);
+  if (!(String(value.role) in CONTACT_ROLE_LABELS)) throw new Error(`${where} has an unknown role`);
+  if (!Array.isArray(value.applicationIds) || !value.applicationIds.every(id => applicationIds.has(id))) {
+    throw new Error(`${where} links to an unknown application`);
+  }
+}
+
+function validateCompany(value: unknown, index: number) {
+  const where = `Company ${index + 1}`;
+  if (!isRecord(value)) throw new Error(`${where} is not an object`);
+  if (typeof value.name !== "string" || !value.name) throw new Error(`${where} is missing name`);
+}
+
+function validateStage(value: unknown, index: number) {
+  const where = `Stage ${index + 1}`;
+  if (!isRecord(value)) throw new Error(`${where} is not an object`);
+  if (typeof value.name !== "string" || !value.name.trim()) throw new Error(`${where} is missing name`);
+  if (!(String(value.kind) in STAGE_KIND_LABELS)) throw new Error(`${where} has an unknown kind`);
+  if (typeof value.coolOffTrigger !== "boolean") throw new Error(`${where} has an invalid coolOffTrigger`);
+}
+
+function validateAttachment(value: unknown, index: number, applicationIds: Set<number | undefined>) {
+  const where = `Attachment ${index + 1}`;
+  if (!isRecord(value)) throw new Error(`${where} is not an object`);
+  if (!applicationIds.has(value.applicationId as number)) throw new Error(`${where} belongs to an unknown application`);
+  if (!(String(value.kind) in ATTACHMENT_KIND_LABELS)) throw new Error(`${where} has an unknown kind`);
+  if (typeof value.name !== "string" || !value.name) throw new Error(`${where} is missing name`);
+  if (typeof value.data !== "string") throw new Error(`${where} has no file contents`);
+}
+
+function validatePolicy(value: unknown, index: number) {
+  const where = `Cool-off policy ${index + 1}`;
+  if (!isRecord(value)) throw new Error(`${where} is not an object`);
+  if (typeof value.company !== "string" || !value.company) throw new Error(`${where} is missing company`);
+  if (typeof value.roleFamily !== "string") throw new Error(`${where} has an invalid role family`);
+  if (typeof value.durationMonths !== "number" || value.durationMonths <= 0) throw new Error(`${where} has an invalid duration`);
+  if (!COOL_OFF_START_TYPES.includes(value.startEvent as CoolOffPolicy["startEvent"])) throw new Error(`${where} has an invalid start event`);
+  if (!COOL_OFF_SCOPES.includes(value.scope as CoolOffPolicy["scope"])) throw new Error(`${where} has an invalid scope`);
+}
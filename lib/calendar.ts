@@ -0,0 +1,56 @@
+import { db, type JobApplication } from '@/lib/db';
+import { addDays } from '@/lib/dates';
+import { ROUND_TYPE_LABELS } from '@/lib/interviews';
+import { initialStage, listStages } from '@/lib/pipeline';
+
+export type CalendarEventKind = "applied" | "status" | "interview" | "cool-off";
+
+export const CALENDAR_EVENT_LABELS: Record<CalendarEventKind, string> = {
+  applied: "Applied",
+  status: "Status change",
+  interview: "Interview",
+  "cool-off": "Cool-off ends",
+};
+
+export interface CalendarEvent {
+  // "YYYY-MM-DD"
+  date: string;
+  kind: CalendarEventKind;
+  label: string;
+  application: JobApplication;
+}
+
+// Everything dated between the two days, inclusive, from each table's date
+// index. Within a day: applications, status changes, interviews by time,
+// then cool-offs ending.
+export async function listCalendarEvents(from: string, to: string): Promise<CalendarEvent[]> {
+  const initial = initialStage(await listStages());
+  const [applied, coolOffs, statusEvents, interviews] = await Promise.all([
+    db.applications.where('appliedDate').between(from, to, true, true).toArray(),
+    db.applications.where('coolOffEnds').between(from, to, true, true).toArray(),
+    // The first stage's event is already the applied date
+    db.statusEvents.where('date').between(from, to, true, true).filter(event => event.status !== initial).toArray(),
+    // Interview times are local "YYYY-MM-DDTHH:mm", so this runs to the end of the last day
+    db.interviews.where('scheduledAt').between(from, addDays(to, 1)).sortBy('scheduledAt'),
+  ]);
+
+  const ids = [...new Set([...statusEvents, ...interviews].map(record => record.applicationId))];
+  const related = new Map((await db.applications.bulkGet(ids)).flatMap(app => app ? [[app.id!, app] as const] : []));
+
+  const events: CalendarEvent[] = [
+    ...applied.map(app => ({ date: app.appliedDate, kind: "applied" as const, label: app.jobTitle, application: app })),
+    ...statusEvents.flatMap(event => {
+      const app = related.get(event.applicationId);
+      return app ? [{ date: event.date, kind: "status" as const, label: event.status, application: app }] : [];
+    }),
+    ...interviews.flatMap(round => {
+      const app = related.get(round.applicationId);
+      const time = round.scheduledAt.slice(11, 16);
+      return app ? [{ date: round.scheduledAt.slice(0, 10), kind: "interview" as const, label: `${time} ${ROUND_TYPE_LABELS[round.roundType]}`, application: app }] : [];
+    }),
+    ...coolOffs.map(app => ({ date: app.coolOffEnds, kind: "cool-off" as const, label: app.jobTitle, application: app })),
+  ];
+
+  // Stable, so each day keeps the order above
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+}
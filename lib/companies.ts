@@ -0,0 +1,171 @@
+import { db, type Company, type JobApplication } from '@/lib/db';
+import { today } from '@/lib/dates';
+
+export type CompanyInput = Pick<Company, "name" | "website" | "notes">;
+
+export interface CompanySummary {
+  company: Company;
+  applications: number;
+  lastApplied?: string;
+  // Latest running cool-off at the company, if any
+  lockedUntil?: string;
+}
+
+// Every company with a roll-up of its applications, alphabetically
+export async function listCompanies(): Promise<CompanySummary[]> {
+  const companies = await db.companies.orderBy('name').toArray();
+  const apps = await db.applications.toArray();
+
+  const byCompany = new Map<string, JobApplication[]>();
+  for (const app of apps) {
+    const key = companyKey(app.company);
+    byCompany.set(key, [...(byCompany.get(key) ?? []), app]);
+  }
+
+  return companies.map(company => {
+    const companyApps = byCompany.get(companyKey(company.name)) ?? [];
+    return {
+      company,
+      applications: companyApps.length,
+      lastApplied: latest(companyApps.map(app => app.appliedDate)),
+      lockedUntil: lockedUntil(companyApps),
+    };
+  });
+}
+
+export async function getCompany(id: number) {
+  return db.companies.get(id);
+}
+
+export async function findCompany(name: string) {
+  if (!name.trim()) return undefined;
+  return db.companies.where('name').equalsIgnoreCase(name.trim()).first();
+}
+
+// Called wherever a company is named so it always has a record to open
+export async function ensureCompany(name: string) {
+  if (!name.trim() || await findCompany(name)) return;
+
+  const timestamp = new Date().toISOString();
+  await db.companies.add({
+    name: name.trim(),
+    website: "",
+    notes: "",
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  });
+}
+
+export async function createCompany(input: CompanyInput) {
+  if (await findCompany(input.name)) throw new Error(`${input.name.trim()} already exists`);
+
+  const timestamp = new Date().toISOString();
+  return db.companies.add({
+    ...normalizeCompany(input),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  });
+}
+
+// A new name is written through to every application, policy and contact
+// that used the old one, trash included
+export async function updateCompany(id: number, input: CompanyInput) {
+  const changes = normalizeCompany(input);
+
+  await db.transaction('rw', [db.companies, db.applications, db.coolOffPolicies, db.contacts, db.trash], async () => {
+    const existing = await db.companies.get(id);
+    if (!existing) return;
+
+    if (companyKey(changes.name) !== companyKey(existing.name)) {
+      const clash = await findCompany(changes.name);
+      if (clash) throw new Error(`${clash.name} already exists`);
+    }
+
+    if (changes.name !== existing.name) {
+      const oldName = existing.name;
+      await db.applications.where('company').equalsIgnoreCase(oldName).modify({ company: changes.name });
+      await db.coolOffPolicies.where('company').equalsIgnoreCase(oldName).modify({ company: changes.name });
+      await db.contacts.where('company').equalsIgnoreCase(oldName).modify({ company: changes.name });
+      await db.trash.toCollection().modify(entry => {
+        if (companyKey(entry.application.company) === companyKey(oldName)) entry.application.company = changes.name;
+      });
+    }
+
+    await db.companies.update(id, {
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    });
+  });
+}
+
+// Only companies nothing refers to any more can go: no applications, in the
+// trash or not, no cool-off policy and no contacts
+export async function deleteCompany(id: number) {
+  await db.transaction('rw', [db.companies, db.applications, db.coolOffPolicies, db.contacts, db.trash], async () => {
+    const company = await db.companies.get(id);
+    if (!company) return;
+
+    const applications = await db.applications.where('company').equalsIgnoreCase(company.name).count();
+    if (applications > 0) {
+      throw new Error(`${company.name} still has ${applications} applications`);
+    }
+    const trashed = await db.trash.filter(entry => companyKey(entry.application.company) === companyKey(company.name)).count();
+    if (trashed > 0) {
+      throw new Error(`${company.name} still has ${trashed} applications in the trash`);
+    }
+    const policies = await db.coolOffPolicies.where('company').equalsIgnoreCase(company.name).count();
+    if (policies > 0) {
+      throw new Error(`${company.name} still has a cool-off policy`);
+    }
+    const contacts = await db.contacts.where('company').equalsIgnoreCase(company.name).count();
+    if (contacts > 0) {
+      throw new Error(`${company.name} still has ${contacts} contacts`);
+    }
+    await db.companies.delete(id);
+  });
+}
+
+// Everything recorded about one employer, for its company page
+export async function getCompanyOverview(id: number) {
+  const company = await db.companies.get(id);
+  if (!company) return undefined;
+
+  const applications = await db.applications.where('company').equalsIgnoreCase(company.name).toArray();
+  applications.sort((a, b) => b.appliedDate.localeCompare(a.appliedDate) || b.attempt - a.attempt);
+
+  const policies = await db.coolOffPolicies.where('company').equalsIgnoreCase(company.name).toArray();
+
+  // People at the company, plus anyone linked to one of its applications
+  const atCompany = await db.contacts.where('company').equalsIgnoreCase(company.name).toArray();
+  const linked = await db.contacts.where('applicationIds').anyOf(applications.map(app => app.id!)).distinct().toArray();
+  const contacts = [...new Map([...atCompany, ...linked].map(contact => [contact.id, contact])).values()]
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    company,
+    applications,
+    policies,
+    contacts,
+    lockedUntil: lockedUntil(applications),
+  };
+}
+
+function lockedUntil(apps: JobApplication[]) {
+  return latest(apps.map(app => app.coolOffEnds).filter(date => date > today()));
+}
+
+function latest(dates: string[]) {
+  return dates.reduce<string | undefined>((max, date) => (!max || date > max ? date : max), undefined);
+}
+
+function companyKey(name: string) {
+  return name.trim().toLowerCase();
+}
+
+function normalizeCompany(input: CompanyInput): CompanyInput {
+  return {
+    name: input.name.trim(),
+    website: input.website.trim(),
+    notes: input.notes,
+  };
+}
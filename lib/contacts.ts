@@ -0,0 +1,96 @@
+import { db, type Contact, type ContactRole } from '@/lib/db';
+import { ensureCompany } from '@/lib/companies';
+
+export type ContactInput = Omit<Contact, "id" | "applicationIds" | "createdAt" | "updatedAt">;
+
+export const CONTACT_ROLE_LABELS: Record<ContactRole, string> = {
+  "referrer": "Referrer",
+  "recruiter": "Recruiter",
+  "hiring-manager": "Hiring Manager",
+  "interviewer": "Interviewer",
+  "other": "Other",
+};
+
+export async function listContacts() {
+  return db.contacts.orderBy('name').toArray();
+}
+
+export async function createContact(input: ContactInput, applicationIds: number[] = []) {
+  const contact = normalizeContact(input);
+  await ensureCompany(contact.company);
+
+  const timestamp = new Date().toISOString();
+  return db.contacts.add({
+    ...contact,
+    applicationIds,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  });
+}
+
+export async function updateContact(id: number, input: ContactInput) {
+  const contact = normalizeContact(input);
+  await ensureCompany(contact.company);
+
+  return db.contacts.update(id, {
+    ...contact,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function deleteContact(id: number) {
+  return db.contacts.delete(id);
+}
+
+export async function listApplicationContacts(applicationId: number) {
+  return db.contacts.where('applicationIds').equals(applicationId).sortBy('name');
+}
+
+// Links exactly the given contacts to the application, unlinking the rest
+export async function setApplicationContacts(applicationId: number, contactIds: number[]) {
+  await db.transaction('rw', db.contacts, async () => {
+    const wanted = new Set(contactIds);
+    await db.contacts.where('applicationIds').equals(applicationId)
+      .and(contact => !wanted.has(contact.id!))
+      .modify(contact => {
+        contact.applicationIds = contact.applicationIds.filter(id => id !== applicationId);
+      });
+    await db.contacts.where('id').anyOf(contactIds)
+      .and(contact => !contact.applicationIds.includes(applicationId))
+      .modify(contact => {
+        contact.applicationIds.push(applicationId);
+      });
+  });
+}
+
+// Run when an application is deleted so no contact points at it
+export async function unlinkApplication(applicationId: number) {
+  await db.contacts.where('applicationIds').equals(applicationId).modify(contact => {
+    contact.applicationIds = contact.applicationIds.filter(id => id !== applicationId);
+  });
+}
+
+// Referrers for each of the given applications, for the table's indicator
+export async function listReferrers(applicationIds: number[]) {
+  const contacts = await db.contacts.where('applicationIds').anyOf(applicationIds).distinct()
+    .and(contact => contact.role === "referrer")
+    .toArray();
+
+  const byApplication = new Map<number, Contact[]>();
+  for (const contact of contacts) {
+    for (const id of contact.applicationIds) {
+      byApplication.set(id, [...(byApplication.get(id) ?? []), contact]);
+    }
+  }
+  return byApplication;
+}
+
+function normalizeContact(input: ContactInput): ContactInput {
+  return {
+    ...input,
+    name: input.name.trim(),
+    company: input.company.trim(),
+    email: input.email.trim(),
+    linkedIn: input.linkedIn.trim(),
+  };
+}
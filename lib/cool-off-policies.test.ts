@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { db, type CoolOffPolicy } from '@/lib/db';
+import { createApplication, type ApplicationFields } from '@/lib/applications';
+import { createCoolOffPolicy, deleteCoolOffPolicy, findCoolOffPolicy, updateCoolOffPolicy } from '@/lib/cool-off-policies';
+
+beforeEach(async () => {
+  await db.delete();
+  await db.open();
+});
+
+function fields(overrides: Partial<ApplicationFields> = {}): ApplicationFields {
+  return {
+    company: "Acme",
+    jobTitle: "Software Engineer",
+    location: "Remote",
+    status: "Applied",
+    appliedDate: "2024-01-15",
+    coolOffStartType: "application",
+    ...overrides,
+  };
+}
+
+function policy(overrides: Partial<CoolOffPolicy> = {}): Omit<CoolOffPolicy, "id"> {
+  return { company: "Acme", roleFamily: "", durationMonths: 12, startEvent: "application", scope: "exact-role", ...overrides };
+}
+
+const coolOffEnds = async (id: number) => (await db.applications.get(id))?.coolOffEnds;
+
+describe("cool-off computation", () => {
+  it("defaults to six months from the applied date", async () => {
+    const id = await createApplication(fields({ status: "Rejected" }), "2024-03-01");
+    expect(await coolOffEnds(id)).toBe("2024-07-15");
+  });
+
+  it("counts from the rejection when the application says so", async () => {
+    const id = await createApplication(fields({ status: "Rejected", coolOffStartType: "rejection" }), "2024-03-01");
+    expect(await coolOffEnds(id)).toBe("2024-09-01");
+  });
+
+  it("counts from the applied date while the application is still open", async () => {
+    await createCoolOffPolicy(policy({ startEvent: "rejection" }));
+    const id = await createApplication(fields({ status: "Interviewing" }));
+    expect(await coolOffEnds(id)).toBe("2025-01-15");
+  });
+
+  it("follows policy changes, and falls back once the policy is gone", async () => {
+    const id = await createApplication(fields({ status: "Rejected" }), "2024-03-01");
+    const policyId = await createCoolOffPolicy(policy({ company: " acme ", startEvent: "rejection" }));
+    expect(await coolOffEnds(id)).toBe("2025-03-01");
+
+    await updateCoolOffPolicy(policyId, policy({ durationMonths: 3, startEvent: "rejection" }));
+    expect(await coolOffEnds(id)).toBe("2024-06-01");
+
+    await deleteCoolOffPolicy(policyId);
+    expect(await coolOffEnds(id)).toBe("2024-07-15");
+    expect((await db.applications.get(id))?.coolOffStartType).toBe("application");
+  });
+
+  it("recomputes the old company when a policy moves to another", async () => {
+    const acme = await createApplication(fields());
+    const globex = await createApplication(fields({ company: "Globex" }));
+    const policyId = await createCoolOffPolicy(policy());
+
+    await updateCoolOffPolicy(policyId, policy({ company: "Globex" }));
+    expect(await coolOffEnds(acme)).toBe("2024-07-15");
+    expect(await coolOffEnds(globex)).toBe("2025-01-15");
+  });
+});
+
+describe("findCoolOffPolicy", () => {
+  it("prefers a matching role family over the company-wide policy", async () => {
+    await createCoolOffPolicy(policy({ durationMonths: 6 }));
+    await createCoolOffPolicy(policy({ roleFamily: "engineer", durationMonths: 18 }));
+
+    expect((await findCoolOffPolicy("ACME", "Senior Engineer"))?.durationMonths).toBe(18);
+    expect((await findCoolOffPolicy("acme", "Designer"))?.durationMonths).toBe(6);
+    expect(await findCoolOffPolicy("Globex", "Engineer")).toBeUndefined();
+  });
+});
@@ -0,0 +1,110 @@
+import { db, type CoolOffPolicy, type CoolOffScope, type CoolOffStartType } from '@/lib/db';
+import { ensureCompany } from '@/lib/companies';
+import { recalculateCoolOff } from '@/lib/applications';
+
+export type CoolOffPolicyInput = Omit<CoolOffPolicy, "id">;
+
+export const COOL_OFF_DURATIONS = [3, 6, 12, 18];
+
+// Used when a company has no policy of its own
+export const DEFAULT_COOL_OFF_MONTHS = 6;
+export const DEFAULT_COOL_OFF_SCOPE: CoolOffScope = "exact-role";
+
+export const COOL_OFF_SCOPE_LABELS: Record<CoolOffScope, string> = {
+  "exact-role": "Same role",
+  "any-role": "Any role",
+  "any-location": "Any role, any location",
+};
+
+// The terms a cool-off is computed with, whether from a policy or the default
+export interface CoolOffTerms {
+  durationMonths: number;
+  startEvent: CoolOffStartType;
+  scope: CoolOffScope;
+  policy?: CoolOffPolicy;
+}
+
+export async function listCoolOffPolicies() {
+  return db.coolOffPolicies.orderBy('company').toArray();
+}
+
+// Tables touched when a policy and the cool-offs it governs are written together
+const policyTables = () => [db.coolOffPolicies, db.companies, db.applications, db.statusEvents, db.settings];
+
+// Every change below recomputes the cool-offs of the company's applications,
+// so their end dates never lag behind the policy
+export async function createCoolOffPolicy(input: CoolOffPolicyInput) {
+  const policy = normalizePolicy(input);
+  return db.transaction('rw', policyTables(), async () => {
+    await ensureCompany(policy.company);
+    const id = await db.coolOffPolicies.add(policy);
+    await recalculateCompanyCoolOffs(policy.company);
+    return id;
+  });
+}
+
+// Moving a policy to another company recomputes both companies
+export async function updateCoolOffPolicy(id: number, input: CoolOffPolicyInput) {
+  const policy = normalizePolicy(input);
+  await db.transaction('rw', policyTables(), async () => {
+    const existing = await db.coolOffPolicies.get(id);
+    await ensureCompany(policy.company);
+    await db.coolOffPolicies.update(id, policy);
+    await recalculateCompanyCoolOffs(policy.company);
+    if (existing && existing.company.toLowerCase() !== policy.company.toLowerCase()) {
+      await recalculateCompanyCoolOffs(existing.company);
+    }
+  });
+}
+
+export async function deleteCoolOffPolicy(id: number) {
+  await db.transaction('rw', policyTables(), async () => {
+    const existing = await db.coolOffPolicies.get(id);
+    await db.coolOffPolicies.delete(id);
+    if (existing) await recalculateCompanyCoolOffs(existing.company);
+  });
+}
+
+// Runs inside the caller's transaction, which must cover the policy tables
+export async function recalculateCompanyCoolOffs(company: string) {
+  const ids = await db.applications.where('company').equalsIgnoreCase(company.trim()).primaryKeys();
+  for (const id of ids) await recalculateCoolOff(id);
+}
+
+// A role-family policy wins over the company-wide one
+export async function findCoolOffPolicy(company: string, jobTitle: string) {
+  if (!company.trim()) return undefined;
+
+  const policies = await db.coolOffPolicies.where('company').equalsIgnoreCase(company.trim()).toArray();
+  const title = jobTitle.toLowerCase();
+
+  return policies.find(policy => policy.roleFamily && title.includes(policy.roleFamily.toLowerCase()))
+    ?? policies.find(policy => !policy.roleFamily);
+}
+
+// Falls back to the default duration and the start event chosen on the application
+export async function getCoolOffTerms(company: string, jobTitle: string, fallbackStart: CoolOffStartType): Promise<CoolOffTerms> {
+  const policy = await findCoolOffPolicy(company, jobTitle);
+  if (policy) {
+    return {
+      durationMonths: policy.durationMonths,
+      startEvent: policy.startEvent,
+      scope: policy.scope,
+      policy,
+    };
+  }
+
+  return {
+    durationMonths: DEFAULT_COOL_OFF_MONTHS,
+    startEvent: fallbackStart,
+    scope: DEFAULT_COOL_OFF_SCOPE,
+  };
+}
+
+function normalizePolicy(input: CoolOffPolicyInput): CoolOffPolicyInput {
+  return {
+    ...input,
+    company: input.company.trim(),
+    roleFamily: input.roleFamily.trim(),
+  };
+}
@@ -0,0 +1,42 @@
+import { db, type JobApplication } from '@/lib/db';
+import { toCsv } from '@/lib/csv';
+import { CSV_FIELDS, type CsvField } from '@/lib/csv-import';
+import { findLatestStatusEvent } from '@/lib/status-history';
+import { isCoolOffTrigger, listStages } from '@/lib/pipeline';
+
+// The import's columns come first under the same headers, so an exported
+// file can be imported again; the rest are for reading
+export async function buildApplicationsCsv(ids: number[]) {
+  const apps = (await db.applications.bulkGet(ids)).filter((app): app is JobApplication => !!app);
+  const stages = await listStages();
+
+  const rows = await Promise.all(apps.map(async app => {
+    const rejection = isCoolOffTrigger(stages, app.status) ? await findLatestStatusEvent(app.id!, app.status) : undefined;
+    const values: Record<CsvField, string | undefined> = {
+      company: app.company,
+      jobTitle: app.jobTitle,
+      location: app.location,
+      status: app.status,
+      appliedDate: app.appliedDate,
+      rejectedDate: rejection?.date,
+      coolOffStartType: app.coolOffStartType,
+      source: app.source,
+      tags: app.tags?.join(", "),
+      postingUrl: app.postingUrl,
+      salaryMin: app.salaryMin?.toString(),
+      salaryMax: app.salaryMax?.toString(),
+      salaryCurrency: app.salaryCurrency,
+      workMode: app.workMode,
+      seniority: app.seniority,
+    };
+    return [...CSV_FIELDS.map(({ field }) => values[field]), app.coolOffEnds, app.notes].map(escapeFormula);
+  }));
+
+  return toCsv([[...CSV_FIELDS.map(({ label }) => label), "Cool-Off Ends", "Notes"], ...rows]);
+}
+
+// Spreadsheets evaluate cells starting with these as formulas; a leading
+// apostrophe makes them plain text, and the import strips it again
+function escapeFormula(value: string | undefined) {
+  return value && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
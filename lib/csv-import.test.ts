@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from '@/lib/db';
+import { parseCsv } from '@/lib/csv';
+import { addMonths, today } from '@/lib/dates';
+import { createApplication, type ApplicationFields } from '@/lib/applications';
+import { buildApplicationsCsv } from '@/lib/csv-export';
+import { guessMapping, validateCsvRows } from '@/lib/csv-import';
+import { trashApplication } from '@/lib/trash';
+
+beforeEach(async () => {
+  await db.delete();
+  await db.open();
+});
+
+const HEADERS = ["Company", "Job Title", "Location", "Status", "Applied Date", "Rejection Date"];
+
+async function validate(...rows: string[][]) {
+  return validateCsvRows(rows, guessMapping(HEADERS));
+}
+
+function fields(overrides: Partial<ApplicationFields> = {}): ApplicationFields {
+  return {
+    company: "Acme",
+    jobTitle: "Engineer",
+    location: "Remote",
+    status: "Applied",
+    appliedDate: "2020-01-15",
+    coolOffStartType: "application",
+    ...overrides,
+  };
+}
+
+describe("guessMapping", () => {
+  it("matches common header names, ignoring case", () => {
+    const mapping = guessMapping(["Employer", "ROLE", "City", "date applied", "Whatever"]);
+    expect(mapping.company).toBe(0);
+    expect(mapping.jobTitle).toBe(1);
+    expect(mapping.location).toBe(2);
+    expect(mapping.appliedDate).toBe(3);
+    expect(mapping.status).toBeNull();
+  });
+});
+
+describe("validateCsvRows", () => {
+  it("reports every problem on a row", async () => {
+    const [result] = await validate(["", "Engineer", "Remote", "Ghosted", "2020-02-30", ""]);
+    expect(result.fields).toBeNull();
+    expect(result.errors).toEqual(["Company is empty", 'Unknown status "Ghosted"', 'Invalid applied date "2020-02-30"']);
+  });
+
+  it("starts a rejection without a date from the applied date", async () => {
+    const [result] = await validate(["Acme", "Engineer", "Remote", "rejected", "3/4/2020", ""]);
+    expect(result.fields?.status).toBe("Rejected");
+    expect(result.rejectedDate).toBe("2020-03-04");
+  });
+
+  it("flags repeats within the file", async () => {
+    const row = ["Acme", "Engineer", "Remote", "", "2020-01-01", ""];
+    const results = await validate(row, row.map(cell => cell.toUpperCase()));
+    expect(results.map(result => result.duplicate)).toEqual([null, "file"]);
+  });
+
+  it("blocks roles whose cool-off is still running, trash included", async () => {
+    const appliedDate = today();
+    await trashApplication(await createApplication(fields({ appliedDate })));
+
+    const [result] = await validate(["acme", "engineer", "remote", "", appliedDate, ""]);
+    expect(result.fields).toBeNull();
+    expect(result.errors).toEqual([`Already applied; the cool-off runs until ${addMonths(appliedDate, 6)}`]);
+  });
+
+  it("imports an export back unchanged, formula-like text included", async () => {
+    const id = await createApplication(fields({ company: "=Acme", jobTitle: "-Engineer", notes: "@later" }));
+    const [header, ...rows] = parseCsv(await buildApplicationsCsv([id]));
+    expect(rows[0][0]).toBe("'=Acme");
+
+    const [result] = await validateCsvRows(rows, guessMapping(header));
+    expect(result.errors).toEqual([]);
+    expect(result.duplicate).toBe("existing");
+    expect(result.fields).toMatchObject({ company: "=Acme", jobTitle: "-Engineer", appliedDate: "2020-01-15" });
+  });
+});
@@ -0,0 +1,187 @@
+import { db, type ApplicationStatus, type CoolOffStartType } from '@/lib/db';
+import { SENIORITY_LABELS, WORK_MODE_LABELS, applicationKey, parseTags, type ApplicationFields } from '@/lib/applications';
+import { parseDateInput, today } from '@/lib/dates';
+import { initialStage, isCoolOffTrigger, listStages, type PipelineStage } from '@/lib/pipeline';
+
+export type CsvField =
+  | "company" | "jobTitle" | "location" | "status" | "appliedDate" | "rejectedDate" | "coolOffStartType" | "source" | "tags"
+  | "postingUrl" | "salaryMin" | "salaryMax" | "salaryCurrency" | "workMode" | "seniority";
+
+// Column index per field; null when the field is not mapped
+export type CsvMapping = Record<CsvField, number | null>;
+
+export const CSV_FIELDS: Array<{ field: CsvField; label: string; required: boolean; hint?: string }> = [
+  { field: "company", label: "Company", required: true },
+  { field: "jobTitle", label: "Job Title", required: true },
+  { field: "location", label: "Location", required: true },
+  { field: "status", label: "Status", required: false, hint: "A stage of your pipeline; defaults to the first" },
+  { field: "appliedDate", label: "Applied Date", required: false, hint: "Defaults to today" },
+  { field: "rejectedDate", label: "Rejection Date", required: false, hint: "Used for rows in a stage that starts the cool-off" },
+  { field: "coolOffStartType", label: "Cool-Off Starts", required: false, hint: "Defaults to after application" },
+  { field: "source", label: "Source", required: false, hint: "Where you found the opening" },
+  { field: "tags", label: "Tags", required: false, hint: "Separated by commas" },
+  { field: "postingUrl", label: "Posting URL", required: false },
+  { field: "salaryMin", label: "Salary Min", required: false, hint: "A whole number" },
+  { field: "salaryMax", label: "Salary Max", required: false, hint: "A whole number" },
+  { field: "salaryCurrency", label: "Currency", required: false, hint: "e.g. USD" },
+  { field: "workMode", label: "Work Mode", required: false, hint: "Remote, hybrid or on-site" },
+  { field: "seniority", label: "Seniority", required: false, hint: "e.g. junior or senior" },
+];
+
+// Header names commonly used for each field in spreadsheets
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  company: ["company", "employer", "organization", "organisation"],
+  jobTitle: ["job title", "jobtitle", "title", "role", "position"],
+  location: ["location", "city", "office"],
+  status: ["status", "stage", "state"],
+  appliedDate: ["applied date", "applieddate", "applied", "date applied", "application date", "date"],
+  rejectedDate: ["rejected date", "rejecteddate", "rejection date", "rejected on"],
+  coolOffStartType: ["cool-off starts", "cooloffstarttype", "cool off start", "cool-off start"],
+  source: ["source", "channel", "found via", "found on"],
+  tags: ["tags", "tag", "labels"],
+  postingUrl: ["posting url", "postingurl", "url", "link", "job url", "job link", "posting"],
+  salaryMin: ["salary min", "salarymin", "min salary", "salary from", "salary"],
+  salaryMax: ["salary max", "salarymax", "max salary", "salary to"],
+  salaryCurrency: ["currency", "salarycurrency", "salary currency"],
+  workMode: ["work mode", "workmode", "work type", "arrangement"],
+  seniority: ["seniority", "level", "experience level"],
+};
+
+export interface CsvRowResult {
+  // 1-based line in the file, counting the header
+  line: number;
+  fields: ApplicationFields | null;
+  rejectedDate?: string;
+  errors: string[];
+  duplicate: "existing" | "file" | null;
+}
+
+export function guessMapping(headers: string[]): CsvMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const mapping = {} as CsvMapping;
+  for (const { field } of CSV_FIELDS) {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index === -1 ? null : index;
+  }
+  return mapping;
+}
+
+// A row for a role already tracked, trash included, imports as its next
+// attempt, which the role's running cool-off blocks just as the form does
+export async function validateCsvRows(rows: string[][], mapping: CsvMapping): Promise<CsvRowResult[]> {
+  const existing = [
+    ...await db.applications.toArray(),
+    ...(await db.trash.toArray()).map(entry => entry.application),
+  ];
+  const coolOffEnds = new Map<string, string>();
+  for (const app of existing) {
+    const key = applicationKey(app);
+    if (app.coolOffEnds > (coolOffEnds.get(key) ?? "")) coolOffEnds.set(key, app.coolOffEnds);
+  }
+  const stages = await listStages();
+  const fileKeys = new Set<string>();
+
+  return rows.map((row, i) => {
+    const cell = (field: CsvField) => {
+      const index = mapping[field];
+      // Undoes the apostrophe the export puts before formula-like text
+      return index === null ? "" : (row[index] ?? "").trim().replace(/^'(?=[=+\-@])/, "");
+    };
+    const errors: string[] = [];
+
+    for (const { field, label, required } of CSV_FIELDS) {
+      if (required && !cell(field)) errors.push(`${label} is empty`);
+    }
+
+    const status = parseStatus(stages, cell("status"));
+    if (!status) errors.push(`Unknown status "${cell("status")}"`);
+
+    const appliedDate = cell("appliedDate") ? parseDateInput(cell("appliedDate")) : today();
+    if (!appliedDate) errors.push(`Invalid applied date "${cell("appliedDate")}"`);
+
+    const rejectedDate = cell("rejectedDate") ? parseDateInput(cell("rejectedDate")) : undefined;
+    if (rejectedDate === null) errors.push(`Invalid rejection date "${cell("rejectedDate")}"`);
+
+    const coolOffStartType = parseCoolOffStartType(cell("coolOffStartType"));
+    if (!coolOffStartType) errors.push(`Unknown cool-off start "${cell("coolOffStartType")}"`);
+
+    const salaryMin = parseAmount(cell("salaryMin"));
+    if (salaryMin === null) errors.push(`Invalid salary "${cell("salaryMin")}"`);
+    const salaryMax = parseAmount(cell("salaryMax"));
+    if (salaryMax === null) errors.push(`Invalid salary "${cell("salaryMax")}"`);
+    if (typeof salaryMin === "number" && typeof salaryMax === "number" && salaryMax < salaryMin) {
+      errors.push(`Salary max ${salaryMax} is below salary min ${salaryMin}`);
+    }
+
+    const workMode = parseLabelled(cell("workMode"), WORK_MODE_LABELS);
+    if (workMode === null) errors.push(`Unknown work mode "${cell("workMode")}"`);
+    const seniority = parseLabelled(cell("seniority"), SENIORITY_LABELS);
+    if (seniority === null) errors.push(`Unknown seniority "${cell("seniority")}"`);
+
+    const result: CsvRowResult = { line: i + 2, fields: null, errors, duplicate: null };
+    if (errors.length > 0) return result;
+
+    result.fields = {
+      company: cell("company"),
+      jobTitle: cell("jobTitle"),
+      location: cell("location"),
+      status: status!,
+      appliedDate: appliedDate!,
+      coolOffStartType: coolOffStartType!,
+      source: cell("source") || undefined,
+      tags: cell("tags") ? parseTags(cell("tags")) : undefined,
+      postingUrl: cell("postingUrl") || undefined,
+      salaryMin: salaryMin ?? undefined,
+      salaryMax: salaryMax ?? undefined,
+      salaryCurrency: cell("salaryCurrency").toUpperCase() || undefined,
+      workMode: workMode ?? undefined,
+      seniority: seniority ?? undefined,
+    };
+    // Without a rejection date a historical rejection would start its
+    // cool-off on the day of the import, so it counts from the applied date
+    result.rejectedDate = rejectedDate ?? (isCoolOffTrigger(stages, status!) ? appliedDate! : undefined);
+
+    const key = applicationKey(result.fields);
+    const runningUntil = coolOffEnds.get(key);
+    if (runningUntil !== undefined && runningUntil > today()) {
+      errors.push(`Already applied; the cool-off runs until ${runningUntil}`);
+      result.fields = null;
+      return result;
+    }
+    if (runningUntil !== undefined) {
+      result.duplicate = "existing";
+    } else if (fileKeys.has(key)) {
+      result.duplicate = "file";
+    }
+    fileKeys.add(key);
+
+    return result;
+  });
+}
+
+function parseStatus(stages: PipelineStage[], value: string): ApplicationStatus | null {
+  if (!value) return initialStage(stages);
+  return stages.find(stage => stage.name.toLowerCase() === value.toLowerCase())?.name ?? null;
+}
+
+// Undefined when empty, null when not a single amount. "80,000", "$80000"
+// and "USD 80000.50" are fine; ranges and anything else stray are not.
+function parseAmount(value: string): number | undefined | null {
+  if (!value) return undefined;
+  const match = value.match(/^(?:[A-Za-z]{3}\s*|[$€£¥₱₹]\s*)?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?$/);
+  return match ? Math.round(Number(match[1].replace(/,/g, "") + (match[2] ?? ""))) : null;
+}
+
+// Accepts the stored value or its label, ignoring case and punctuation
+function parseLabelled<T extends string>(value: string, labels: Record<T, string>): T | undefined | null {
+  if (!value) return undefined;
+  const normalize = (text: string) => text.toLowerCase().replace(/[^a-z]/g, "");
+  return (Object.keys(labels) as T[]).find(key => normalize(key) === normalize(value) || normalize(labels[key]) === normalize(value)) ?? null;
+}
+
+function parseCoolOffStartType(value: string): CoolOffStartType | null {
+  const normalized = value.toLowerCase();
+  if (!normalized || normalized.startsWith("appl")) return "application";
+  if (normalized.startsWith("reject")) return "rejection";
+  return null;
+}
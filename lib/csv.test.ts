@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from '@/lib/csv';
+
+describe("parseCsv", () => {
+  it("reads quoted commas, newlines and doubled quotes", () => {
+    expect(parseCsv('a,"b, c","say ""hi""\nthere"\r\n1,2,3')).toEqual([
+      ["a", "b, c", 'say "hi"\nthere'],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("drops blank lines and keeps empty cells", () => {
+    expect(parseCsv("a,,c\n\n , \n,b,\n")).toEqual([["a", "", "c"], ["", "b", ""]]);
+  });
+});
+
+describe("toCsv", () => {
+  it("only quotes cells that need it", () => {
+    expect(toCsv([["plain", "with,comma", 'a "quote"', undefined, 42]])).toBe('plain,"with,comma","a ""quote""",,42');
+  });
+
+  it("round-trips through parseCsv", () => {
+    const rows = [["Company", "Notes"], ["Acme, Inc.", 'Said "soon"\r\nthen nothing'], ["", "trailing,"]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
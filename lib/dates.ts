@@ -0,0 +1,76 @@
+export const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Dates are stored as "YYYY-MM-DD" strings so they sort correctly in indexes
+export function toDateString(date: Date) {
+  return date.toISOString().split("T")[0];
+}
+
+export function today() {
+  return toDateString(new Date());
+}
+
+export function getDaysRemaining(date: string) {
+  const diffTime = new Date(date).getTime() - new Date().getTime();
+  return Math.ceil(diffTime / DAY_MS);
+}
+
+export function addDays(date: string, days: number) {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+}
+
+export function addMonths(date: string, months: number) {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return toDateString(result);
+}
+
+export function daysBetween(from: string, to: string) {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+// Monday of the week the date falls in
+export function startOfWeek(date: string) {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() - ((result.getUTCDay() + 6) % 7));
+  return toDateString(result);
+}
+
+export function startOfMonth(date: string) {
+  return `${date.slice(0, 7)}-01`;
+}
+
+// Accepts "YYYY-MM-DD", "M/D/YYYY" and anything else Date can parse
+export function parseDateInput(value: string): string | null {
+  const trimmed = value.trim();
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const iso = us ? `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}` : trimmed;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(iso)) {
+    // Date rolls impossible days over (Feb 30 becomes Mar 1), so the parts
+    // have to come back out unchanged
+    const [year, month, day] = iso.split("-").map(Number);
+    const date = new Date(0);
+    date.setUTCFullYear(year, month - 1, day);
+    return toDateString(date) === iso ? iso : null;
+  }
+
+  const parsed = new Date(trimmed);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return toDateString(new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate())));
+}
+
+// Local time in the "YYYY-MM-DDTHH:mm" form datetime-local inputs use
+export function toLocalDateTime(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function nowLocalDateTime() {
+  return toLocalDateTime(new Date());
+}
+
+// The date on the user's own calendar, for date inputs; today() is the UTC date
+export function localToday() {
+  return nowLocalDateTime().split("T")[0];
+}
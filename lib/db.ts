@@ -0,0 +1,289 @@
+import Dexie from 'dexie';
+
+// Types
+// The name of a stage in the user's pipeline (see lib/pipeline.ts)
+export type ApplicationStatus = string;
+export type CoolOffStartType = "application" | "rejection";
+// Which later applications a cool-off blocks: the same role and location,
+// any role at the same location, or any role anywhere at the company
+export type CoolOffScope = "exact-role" | "any-role" | "any-location";
+
+export type InterviewRoundType = "recruiter-screen" | "technical" | "take-home" | "onsite" | "hiring-manager" | "other";
+export type InterviewOutcome = "pending" | "passed" | "failed" | "cancelled";
+
+export type AttachmentKind = "resume" | "cover-letter" | "job-description" | "other";
+
+export type ContactRole = "referrer" | "recruiter" | "hiring-manager" | "interviewer" | "other";
+
+export type WorkMode = "remote" | "hybrid" | "onsite";
+export type Seniority = "intern" | "junior" | "mid" | "senior" | "lead" | "manager";
+
+export const COOL_OFF_START_TYPES: CoolOffStartType[] = ["application", "rejection"];
+export const COOL_OFF_SCOPES: CoolOffScope[] = ["exact-role", "any-role", "any-location"];
+export const WORK_MODES: WorkMode[] = ["remote", "hybrid", "onsite"];
+export const SENIORITIES: Seniority[] = ["intern", "junior", "mid", "senior", "lead", "manager"];
+
+export interface JobApplication {
+  id?: number;
+  company: string;
+  jobTitle: string;
+  location: string;
+  status: ApplicationStatus;
+  appliedDate: string;
+  coolOffEnds: string;
+  coolOffStartType: CoolOffStartType;
+  // Re-applications to the same role form a chain: attempt 1, 2, ...
+  attempt: number;
+  previousAttemptId?: number;
+  // Where the opening was found, e.g. "LinkedIn" or "Referral"
+  source?: string;
+  notes?: string;
+  // Free-form labels, e.g. "remote" or "dream job"
+  tags?: string[];
+  postingUrl?: string;
+  // The advertised pay range; either end may be missing
+  salaryMin?: number;
+  salaryMax?: number;
+  // ISO 4217 code, e.g. "USD"
+  salaryCurrency?: string;
+  workMode?: WorkMode;
+  seniority?: Seniority;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CoolOffPolicy {
+  id?: number;
+  company: string;
+  // Only applies to job titles containing this text; empty for every role
+  roleFamily: string;
+  durationMonths: number;
+  startEvent: CoolOffStartType;
+  scope: CoolOffScope;
+}
+
+// One row per status transition, so the time spent in each stage survives
+export interface StatusEvent {
+  id?: number;
+  applicationId: number;
+  status: ApplicationStatus;
+  date: string;
+  createdAt: string;
+}
+
+export interface InterviewRound {
+  id?: number;
+  applicationId: number;
+  roundType: InterviewRoundType;
+  // Local date and time, "YYYY-MM-DDTHH:mm" as produced by datetime-local inputs
+  scheduledAt: string;
+  interviewers: string;
+  outcome: InterviewOutcome;
+  notes: string;
+  createdAt: string;
+}
+
+export interface Contact {
+  id?: number;
+  name: string;
+  role: ContactRole;
+  company: string;
+  email: string;
+  linkedIn: string;
+  notes: string;
+  // "YYYY-MM-DD", empty when never contacted
+  lastContacted: string;
+  // Applications this person is involved in, indexed multi-entry
+  applicationIds: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Applications, policies and contacts refer to a company by name, matched
+// without regard to case; this record holds what belongs to the company itself
+export interface Company {
+  id?: number;
+  name: string;
+  website: string;
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A file kept with an application, stored as a blob so it works offline
+export interface Attachment {
+  id?: number;
+  applicationId: number;
+  kind: AttachmentKind;
+  name: string;
+  type: string;
+  size: number;
+  blob: Blob;
+  createdAt: string;
+}
+
+// App preferences, one record per feature, keyed by name
+export interface Setting {
+  key: string;
+  value: unknown;
+}
+
+// Reminders already shown, so each one fires only once
+export interface SentReminder {
+  id: string;
+  sentAt: string;
+}
+
+// A deleted application and everything that hung off it, kept until it is
+// restored or purged
+export interface TrashedApplication {
+  id?: number;
+  deletedAt: string;
+  application: JobApplication;
+  statusEvents: StatusEvent[];
+  interviews: InterviewRound[];
+  attachments: Attachment[];
+  contactIds: number[];
+  // Later attempts that were relinked past it when it was deleted
+  nextAttemptIds: number[];
+}
+
+// Database setup
+export const db = new Dexie('JobApplicationsDB') as Dexie & {
+  applications: Dexie.Table<JobApplication, number>;
+  coolOffPolicies: Dexie.Table<CoolOffPolicy, number>;
+  statusEvents: Dexie.Table<StatusEvent, number>;
+  interviews: Dexie.Table<InterviewRound, number>;
+  contacts: Dexie.Table<Contact, number>;
+  companies: Dexie.Table<Company, number>;
+  attachments: Dexie.Table<Attachment, number>;
+  settings: Dexie.Table<Setting, string>;
+  sentReminders: Dexie.Table<SentReminder, string>;
+  trash: Dexie.Table<TrashedApplication, number>;
+};
+
+// Schema history. Published versions must never be edited: add a new
+// version with an upgrade() that brings existing rows up to date instead.
+db.version(1).stores({
+  applications: '++id, company, jobTitle, location, status, appliedDate, coolOffEnds, coolOffStartType'
+});
+
+// v2: track when a record was created and last modified
+db.version(2).stores({
+  applications: '++id, company, jobTitle, location, status, appliedDate, coolOffEnds, coolOffStartType, updatedAt'
+}).upgrade(tx => {
+  return tx.table('applications').toCollection().modify(app => {
+    // Legacy dates that don't parse fall back to any existing createdAt
+    const applied = new Date(app.appliedDate);
+    const timestamp = Number.isNaN(applied.getTime())
+      ? app.createdAt ?? new Date().toISOString()
+      : applied.toISOString();
+    app.createdAt = timestamp;
+    app.updatedAt = timestamp;
+  });
+});
+
+// v3: per-company cool-off policies
+db.version(3).stores({
+  coolOffPolicies: '++id, company'
+});
+
+// v4: status history. Existing applications get an "Applied" event on their
+// applied date, plus one for their current status when they have moved on.
+db.version(4).stores({
+  statusEvents: '++id, applicationId, date'
+}).upgrade(async tx => {
+  const apps: JobApplication[] = await tx.table('applications').toArray();
+  const events: StatusEvent[] = apps.flatMap(app => initialStatusEvents(app));
+  await tx.table('statusEvents').bulkAdd(events);
+});
+
+// v5: re-applications linked to the attempt before them
+db.version(5).stores({
+  applications: '++id, company, jobTitle, location, status, appliedDate, coolOffEnds, coolOffStartType, updatedAt, previousAttemptId'
+}).upgrade(tx => {
+  return tx.table('applications').toCollection().modify(app => {
+    app.attempt = 1;
+  });
+});
+
+// v6: interview rounds
+db.version(6).stores({
+  interviews: '++id, applicationId, scheduledAt'
+});
+
+// v7: contacts, linked to any number of applications
+db.version(7).stores({
+  contacts: '++id, name, company, *applicationIds'
+});
+
+// v8: company records for every company already named somewhere
+db.version(8).stores({
+  companies: '++id, name'
+}).upgrade(async tx => {
+  const names: string[] = [
+    ...(await tx.table('applications').toArray()).map((app: JobApplication) => app.company),
+    ...(await tx.table('coolOffPolicies').toArray()).map((policy: CoolOffPolicy) => policy.company),
+    ...(await tx.table('contacts').toArray()).map((contact: Contact) => contact.company),
+  ];
+  const byKey = new Map<string, string>();
+  for (const name of names) {
+    const key = name.trim().toLowerCase();
+    if (key && !byKey.has(key)) byKey.set(key, name.trim());
+  }
+
+  const timestamp = new Date().toISOString();
+  await tx.table('companies').bulkAdd([...byKey.values()].map(name => ({
+    name,
+    website: "",
+    notes: "",
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })));
+});
+
+// v9: file attachments
+db.version(9).stores({
+  attachments: '++id, applicationId'
+});
+
+// v10: settings and the log of reminders already shown
+db.version(10).stores({
+  settings: 'key',
+  sentReminders: 'id, sentAt'
+});
+
+// v11: every sort column paired with the id, so a page can start right after
+// a given row and rows with equal values keep a stable order
+db.version(11).stores({
+  applications: '++id, company, jobTitle, location, status, appliedDate, coolOffEnds, coolOffStartType, updatedAt, previousAttemptId, [company+id], [jobTitle+id], [location+id], [status+id], [appliedDate+id], [coolOffEnds+id]'
+});
+
+// v12: tags
+db.version(12).stores({
+  applications: '++id, company, jobTitle, location, status, appliedDate, coolOffEnds, coolOffStartType, updatedAt, previousAttemptId, [company+id], [jobTitle+id], [location+id], [status+id], [appliedDate+id], [coolOffEnds+id], *tags'
+});
+
+// v13: trash for deleted applications
+db.version(13).stores({
+  trash: '++id, deletedAt'
+});
+
+// Best-effort history for records created before status events existed.
+// Records from before custom pipelines always started out "Applied".
+export function initialStatusEvents(app: JobApplication, initialStatus: ApplicationStatus = "Applied"): StatusEvent[] {
+  const events: StatusEvent[] = [
+    { applicationId: app.id!, status: initialStatus, date: app.appliedDate, createdAt: app.createdAt },
+  ];
+  if (app.status !== initialStatus) {
+    events.push({ applicationId: app.id!, status: app.status, date: app.updatedAt.split("T")[0], createdAt: app.updatedAt });
+  }
+  return events;
+}
+
+// A copy to add as a new row, so the table assigns it a fresh id
+export function withoutId<T extends { id?: number }>(record: T): T {
+  const copy = { ...record };
+  delete copy.id;
+  return copy;
+}
@@ -0,0 +1,80 @@
+import { db, type CoolOffScope, type JobApplication } from '@/lib/db';
+import { getCoolOffTerms } from '@/lib/cool-off-policies';
+import { today } from '@/lib/dates';
+
+export interface Candidate {
+  company: string;
+  jobTitle: string;
+  location: string;
+}
+
+export interface PriorApplication {
+  application: JobApplication;
+  scope: CoolOffScope;
+  isActive: boolean;
+  // Deleted but still in the trash; its cool-off still counts
+  trashed: boolean;
+  // Whether this cool-off stops the candidate from applying right now
+  blocks: boolean;
+}
+
+export interface Eligibility {
+  priors: PriorApplication[];
+  canApply: boolean;
+  // Earliest date every blocking cool-off has ended; today when nothing blocks
+  eligibleFrom: string;
+}
+
+// Lists every earlier application at the company, trash included, and works
+// out which running cool-offs cover the candidate role under their company's policy.
+// An empty job title or location counts as matching, so a lookup by company
+// alone errs on the side of "blocked".
+export async function checkEligibility(candidate: Candidate, excludeId?: number | null): Promise<Eligibility> {
+  const company = candidate.company.trim();
+  if (!company) return { priors: [], canApply: true, eligibleFrom: today() };
+
+  const apps = await db.applications.where('company').equalsIgnoreCase(company).toArray();
+  const trash = await db.trash
+    .filter(entry => entry.application.company.trim().toLowerCase() === company.toLowerCase())
+    .toArray();
+  const earlier = [
+    ...apps.filter(app => app.id !== excludeId).map(application => ({ application, trashed: false })),
+    ...trash.map(entry => ({ application: entry.application, trashed: true })),
+  ];
+  const priors: PriorApplication[] = [];
+
+  for (const { application, trashed } of earlier) {
+    const terms = await getCoolOffTerms(application.company, application.jobTitle, application.coolOffStartType);
+    const isActive = application.coolOffEnds > today();
+    priors.push({
+      application,
+      scope: terms.scope,
+      isActive,
+      trashed,
+      blocks: isActive && isCovered(application, candidate, terms.scope),
+    });
+  }
+
+  priors.sort((a, b) => b.application.appliedDate.localeCompare(a.application.appliedDate));
+
+  const blocking = priors.filter(prior => prior.blocks);
+  const eligibleFrom = blocking.reduce(
+    (latest, prior) => prior.application.coolOffEnds > latest ? prior.application.coolOffEnds : latest,
+    today()
+  );
+
+  return { priors, canApply: blocking.length === 0, eligibleFrom };
+}
+
+function isCovered(application: JobApplication, candidate: Candidate, scope: CoolOffScope) {
+  const same = (a: string, b: string) => !b.trim() || a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  switch (scope) {
+    case "exact-role":
+      return same(application.jobTitle, candidate.jobTitle) && same(application.location, candidate.location);
+    case "any-role":
+      return same(application.location, candidate.location);
+    case "any-location":
+      return true;
+  }
+}
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from '@/lib/db';
+import { addMonths, today } from '@/lib/dates';
+import { createApplication, type ApplicationFields } from '@/lib/applications';
+import { buildCoolOffCalendar } from '@/lib/ical';
+
+beforeEach(async () => {
+  await db.delete();
+  await db.open();
+});
+
+function fields(overrides: Partial<ApplicationFields> = {}): ApplicationFields {
+  return {
+    company: "Acme",
+    jobTitle: "Engineer",
+    location: "Remote",
+    status: "Applied",
+    appliedDate: today(),
+    coolOffStartType: "application",
+    ...overrides,
+  };
+}
+
+// Joins folded continuation lines back up, as calendar apps do
+function unfold(calendar: string) {
+  return calendar.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("buildCoolOffCalendar", () => {
+  it("adds an all-day event for each running cool-off", async () => {
+    const id = await createApplication(fields({ location: "Manila, PH" }));
+    await createApplication(fields({ company: "Old", appliedDate: "2020-01-01" }));
+    const lines = unfold(await buildCoolOffCalendar({ includeFollowUps: false, followUpDays: 14 }));
+
+    expect(lines.filter(line => line === "BEGIN:VEVENT")).toHaveLength(1);
+    expect(lines).toContain(`UID:cool-off-${id}@zhiwei-zzq.app`);
+    expect(lines).toContain(`DTSTART;VALUE=DATE:${addMonths(today(), 6).replace(/-/g, "")}`);
+    expect(lines).toContain("LOCATION:Manila\\, PH");
+  });
+
+  it("folds long lines at 75 octets without splitting characters", async () => {
+    const company = "株式会社".repeat(12) + "🚀".repeat(20) + "é";
+    await createApplication(fields({ company }));
+    const calendar = await buildCoolOffCalendar({ includeFollowUps: false, followUpDays: 14 });
+
+    const physical = calendar.split("\r\n");
+    expect(physical.some(line => line.startsWith(" "))).toBe(true);
+    for (const line of physical) {
+      const bytes = new TextEncoder().encode(line);
+      expect(bytes.length).toBeLessThanOrEqual(75);
+      // A split surrogate pair would come back as a replacement character
+      expect(new TextDecoder().decode(bytes)).toBe(line);
+    }
+    expect(unfold(calendar)).toContain(`SUMMARY:Can reapply to ${company} – Engineer`);
+  });
+
+  it("only adds follow-ups when asked", async () => {
+    const id = await createApplication(fields());
+    const without = await buildCoolOffCalendar({ includeFollowUps: false, followUpDays: 14 });
+    const withFollowUps = await buildCoolOffCalendar({ includeFollowUps: true, followUpDays: 14 });
+
+    expect(without).not.toContain(`follow-up-${id}`);
+    expect(unfold(withFollowUps)).toContain(`UID:follow-up-${id}@zhiwei-zzq.app`);
+  });
+});
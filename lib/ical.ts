@@ -0,0 +1,123 @@
+import { db, type JobApplication } from '@/lib/db';
+import { listActiveCoolOffs } from '@/lib/applications';
+import { addDays, today } from '@/lib/dates';
+import { listStages, stagesOfKind } from '@/lib/pipeline';
+
+// Keeps UIDs stable across exports so calendars update events in place
+const UID_DOMAIN = "zhiwei-zzq.app";
+
+export interface CalendarExportOptions {
+  includeFollowUps: boolean;
+  followUpDays: number;
+}
+
+export const DEFAULT_FOLLOW_UP_DAYS = 14;
+
+// Builds an iCalendar feed with an all-day event for every cool-off still
+// running and, optionally, a follow-up for every open application
+export async function buildCoolOffCalendar(options: CalendarExportOptions) {
+  const events: string[][] = [];
+
+  for (const app of await listActiveCoolOffs()) {
+    events.push(allDayEvent({
+      uid: `cool-off-${app.id}@${UID_DOMAIN}`,
+      date: app.coolOffEnds,
+      summary: `Can reapply to ${app.company} – ${app.jobTitle}`,
+      description: `Cool-off for ${app.jobTitle} (${app.location}) ends.`,
+      location: app.location,
+      app,
+    }));
+  }
+
+  if (options.includeFollowUps) {
+    const openApps = await db.applications.where('status').anyOf(stagesOfKind(await listStages(), "open")).toArray();
+    for (const app of openApps) {
+      const date = addDays(app.updatedAt.split("T")[0], options.followUpDays);
+      if (date <= today()) continue;
+
+      events.push(allDayEvent({
+        uid: `follow-up-${app.id}@${UID_DOMAIN}`,
+        date,
+        summary: `Follow up with ${app.company} – ${app.jobTitle}`,
+        description: `No update since ${new Date(app.updatedAt).toLocaleDateString()}.`,
+        location: app.location,
+        app,
+      }));
+    }
+  }
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Zhiwei ZZQ//Job Application Tracker//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Job Applications",
+    ...events.flat(),
+    "END:VCALENDAR",
+  ].map(foldLine).join("\r\n") + "\r\n";
+}
+
+function allDayEvent({ uid, date, summary, description, location, app }: {
+  uid: string;
+  date: string;
+  summary: string;
+  description: string;
+  location: string;
+  app: JobApplication;
+}) {
+  return [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${formatTimestamp(new Date().toISOString())}`,
+    // Any edit to the application bumps the sequence, so re-imports replace the old copy
+    `SEQUENCE:${Math.floor(new Date(app.updatedAt).getTime() / 1000)}`,
+    `DTSTART;VALUE=DATE:${formatDate(date)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDays(date, 1))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(location)}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+}
+
+function formatDate(date: string) {
+  return date.replace(/-/g, "");
+}
+
+function formatTimestamp(iso: string) {
+  return iso.replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets of UTF-8 continue on the next line after a
+// space. Whole characters are moved, so no multi-byte sequence is split.
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function utf8Length(char: string) {
+  const code = char.codePointAt(0)!;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
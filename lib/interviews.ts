@@ -0,0 +1,96 @@
+import { db, type ApplicationStatus, type InterviewOutcome, type InterviewRound, type InterviewRoundType, type JobApplication } from '@/lib/db';
+import { nowLocalDateTime } from '@/lib/dates';
+import { initialStage, stagesOfKind, type PipelineStage } from '@/lib/pipeline';
+
+export type InterviewInput = Omit<InterviewRound, "id" | "applicationId" | "createdAt">;
+
+export const ROUND_TYPE_LABELS: Record<InterviewRoundType, string> = {
+  "recruiter-screen": "Recruiter Screen",
+  "technical": "Technical",
+  "take-home": "Take-home",
+  "onsite": "Onsite",
+  "hiring-manager": "Hiring Manager",
+  "other": "Other",
+};
+
+export const OUTCOME_LABELS: Record<InterviewOutcome, string> = {
+  pending: "Pending",
+  passed: "Passed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+// Oldest first
+export async function listInterviews(applicationId: number) {
+  return db.interviews.where('applicationId').equals(applicationId).sortBy('scheduledAt');
+}
+
+// Pending rounds from now on, soonest first, with their application
+export async function listUpcomingInterviews(limit: number) {
+  const rounds = await db.interviews
+    .where('scheduledAt').aboveOrEqual(nowLocalDateTime())
+    .filter(round => round.outcome === "pending")
+    .limit(limit)
+    .toArray();
+
+  const apps = await db.applications.bulkGet(rounds.map(round => round.applicationId));
+  return rounds.flatMap((round, i) => apps[i] ? [{ round, application: apps[i] }] : []);
+}
+
+// Adding, editing or removing a round counts as activity on the
+// application, so follow-up reminders wait while interviews are going on
+export async function createInterview(applicationId: number, input: InterviewInput) {
+  return db.transaction('rw', [db.interviews, db.applications], async () => {
+    const id = await db.interviews.add({
+      ...input,
+      applicationId,
+      createdAt: new Date().toISOString(),
+    });
+    await touchApplication(applicationId);
+    return id;
+  });
+}
+
+export async function updateInterview(id: number, input: Partial<InterviewInput>) {
+  await db.transaction('rw', [db.interviews, db.applications], async () => {
+    const round = await db.interviews.get(id);
+    if (!round) return;
+
+    await db.interviews.update(id, input);
+    await touchApplication(round.applicationId);
+  });
+}
+
+export async function deleteInterview(id: number) {
+  await db.transaction('rw', [db.interviews, db.applications], async () => {
+    const round = await db.interviews.get(id);
+    if (!round) return;
+
+    await db.interviews.delete(id);
+    await touchApplication(round.applicationId);
+  });
+}
+
+export async function deleteInterviews(applicationId: number) {
+  return db.interviews.where('applicationId').equals(applicationId).delete();
+}
+
+// Status the rounds point to, or null when the current one still fits: a
+// failed latest round suggests the first negative stage, any other round
+// means the process has moved past the first stage to the next open one.
+export function suggestStatus(application: JobApplication, rounds: InterviewRound[], stages: PipelineStage[]): ApplicationStatus | null {
+  const held = rounds.filter(round => round.outcome !== "cancelled");
+  const latest = held[held.length - 1];
+  if (!latest) return null;
+
+  if (latest.outcome === "failed") {
+    const rejections = stagesOfKind(stages, "negative");
+    return rejections.length === 0 || rejections.includes(application.status) ? null : rejections[0];
+  }
+  if (application.status !== initialStage(stages)) return null;
+  return stagesOfKind(stages, "open").find(name => name !== application.status) ?? null;
+}
+
+async function touchApplication(id: number) {
+  await db.applications.update(id, { updatedAt: new Date().toISOString() });
+}
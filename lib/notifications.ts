@@ -0,0 +1,29 @@
+// Thin wrappers over the Notifications and Service Worker APIs, which are
+// missing in some browsers and during server rendering
+
+export function notificationsSupported() {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+export function notificationPermission(): NotificationPermission {
+  return notificationsSupported() ? Notification.permission : "denied";
+}
+
+export async function requestNotificationPermission() {
+  if (!notificationsSupported()) return "denied";
+  return Notification.requestPermission();
+}
+
+// Goes through the service worker when there is one, so clicks are handled
+// even after the tab is closed and it works on mobile browsers, which
+// don't allow `new Notification()`
+export async function showNotification(title: string, options: { body: string; tag: string; url: string }) {
+  const notification = { body: options.body, tag: options.tag, data: { url: options.url }, icon: "/icon.png" };
+  const registration = "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+
+  if (registration) {
+    await registration.showNotification(title, notification);
+  } else {
+    new Notification(title, notification);
+  }
+}
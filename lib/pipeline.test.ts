@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from '@/lib/db';
+import { addMonths } from '@/lib/dates';
+import { createApplication, type ApplicationFields } from '@/lib/applications';
+import { listStatusEvents } from '@/lib/status-history';
+import { trashApplication } from '@/lib/trash';
+import { addStage, deleteStage, listStages, moveStage, updateStage } from '@/lib/pipeline';
+
+beforeEach(async () => {
+  await db.delete();
+  await db.open();
+});
+
+function fields(overrides: Partial<ApplicationFields> = {}): ApplicationFields {
+  return {
+    company: "Acme",
+    jobTitle: "Engineer",
+    location: "Remote",
+    status: "Applied",
+    appliedDate: "2024-01-15",
+    coolOffStartType: "rejection",
+    ...overrides,
+  };
+}
+
+const stageNames = async () => (await listStages()).map(stage => stage.name);
+
+describe("updateStage", () => {
+  it("writes a new name through to applications, history and trash", async () => {
+    const live = await createApplication(fields({ status: "Interviewing" }));
+    await trashApplication(await createApplication(fields({ company: "Globex", status: "Interviewing" })));
+
+    await updateStage("Interviewing", { name: " Interviews " });
+    expect(await stageNames()).toEqual(["Applied", "Interviews", "Offer", "Rejected", "Withdrawn"]);
+    expect((await db.applications.get(live))?.status).toBe("Interviews");
+    expect((await listStatusEvents(live)).map(event => event.status)).toEqual(["Applied", "Interviews"]);
+
+    const [entry] = await db.trash.toArray();
+    expect(entry.application.status).toBe("Interviews");
+    expect(entry.statusEvents.map(event => event.status)).toEqual(["Applied", "Interviews"]);
+  });
+
+  it("refuses names already taken, ignoring case", async () => {
+    await expect(updateStage("Offer", { name: "rejected" })).rejects.toThrow("Rejected already exists");
+    await expect(addStage({ name: " ", kind: "open", coolOffTrigger: false })).rejects.toThrow("A stage needs a name");
+  });
+
+  it("recomputes cool-offs when the trigger is turned on or off", async () => {
+    const id = await createApplication(fields({ status: "Withdrawn" }));
+    expect((await db.applications.get(id))?.coolOffEnds).toBe("2024-07-15");
+
+    await updateStage("Withdrawn", { coolOffTrigger: true });
+    const withdrawn = (await listStatusEvents(id)).find(event => event.status === "Withdrawn")!;
+    expect((await db.applications.get(id))?.coolOffEnds).toBe(addMonths(withdrawn.date, 6));
+
+    await updateStage("Withdrawn", { coolOffTrigger: false });
+    expect((await db.applications.get(id))?.coolOffEnds).toBe("2024-07-15");
+  });
+});
+
+describe("moveStage", () => {
+  it("swaps a stage with its neighbour", async () => {
+    await moveStage("Rejected", -1);
+    expect(await stageNames()).toEqual(["Applied", "Interviewing", "Rejected", "Offer", "Withdrawn"]);
+    await moveStage("Withdrawn", 1);
+    expect(await stageNames()).toEqual(["Applied", "Interviewing", "Rejected", "Offer", "Withdrawn"]);
+  });
+
+  it("keeps the first stage first", async () => {
+    await moveStage("Applied", 1);
+    await moveStage("Interviewing", -1);
+    expect(await stageNames()).toEqual(["Applied", "Interviewing", "Offer", "Rejected", "Withdrawn"]);
+  });
+});
+
+describe("deleteStage", () => {
+  it("only removes stages no application is in, never the first", async () => {
+    await createApplication(fields({ status: "Offer" }));
+
+    await expect(deleteStage("Applied")).rejects.toThrow("can't be removed");
+    await expect(deleteStage("Offer")).rejects.toThrow("Offer still has 1 applications");
+    await deleteStage("Withdrawn");
+    expect(await stageNames()).toEqual(["Applied", "Interviewing", "Offer", "Rejected"]);
+  });
+});
@@ -0,0 +1,167 @@
+import { db, type ApplicationStatus } from '@/lib/db';
+import { getSetting, saveSetting } from '@/lib/settings';
+import { recalculateCoolOff } from '@/lib/applications';
+
+// Where a stage leaves an application: still in progress, or finished well,
+// badly, or by the user's own choice
+export type StageKind = "open" | "positive" | "negative" | "closed";
+
+export interface PipelineStage {
+  name: ApplicationStatus;
+  kind: StageKind;
+  // Moving into the stage starts the cool-off for "after rejection" policies
+  coolOffTrigger: boolean;
+}
+
+export interface Pipeline {
+  stages: PipelineStage[];
+}
+
+export const STAGE_KIND_LABELS: Record<StageKind, string> = {
+  open: "Open",
+  positive: "Positive outcome",
+  negative: "Negative outcome",
+  closed: "Closed",
+};
+
+// The statuses applications had before pipelines were configurable, so
+// existing records land on these stages without a migration
+export const DEFAULT_PIPELINE: Pipeline = {
+  stages: [
+    { name: "Applied", kind: "open", coolOffTrigger: false },
+    { name: "Interviewing", kind: "open", coolOffTrigger: false },
+    { name: "Offer", kind: "positive", coolOffTrigger: false },
+    { name: "Rejected", kind: "negative", coolOffTrigger: true },
+    { name: "Withdrawn", kind: "closed", coolOffTrigger: false },
+  ],
+};
+
+const SETTINGS_KEY = "pipeline";
+
+export async function getPipeline() {
+  return getSetting(SETTINGS_KEY, DEFAULT_PIPELINE);
+}
+
+// Every stage in order, for code that only needs the list
+export async function listStages() {
+  return (await getPipeline()).stages;
+}
+
+// New applications start in the first stage
+export function initialStage(stages: PipelineStage[]) {
+  return stages[0].name;
+}
+
+export function findStage(stages: PipelineStage[], name: string) {
+  return stages.find(stage => stage.name === name);
+}
+
+export function stagesOfKind(stages: PipelineStage[], ...kinds: StageKind[]) {
+  return stages.filter(stage => kinds.includes(stage.kind)).map(stage => stage.name);
+}
+
+export function isCoolOffTrigger(stages: PipelineStage[], name: string) {
+  return !!findStage(stages, name)?.coolOffTrigger;
+}
+
+export async function addStage(stage: PipelineStage) {
+  await db.transaction('rw', db.settings, async () => {
+    const stages = await listStages();
+    const name = validateName(stages, stage.name);
+    await saveStages([...stages, { ...stage, name }]);
+  });
+}
+
+// A new name is written through to every application and status event that
+// used the old one, trash included. Turning the cool-off trigger on or off
+// recomputes the cool-offs of applications in the stage.
+export async function updateStage(name: string, changes: Partial<PipelineStage>) {
+  await db.transaction('rw', [db.settings, db.applications, db.statusEvents, db.coolOffPolicies, db.trash], async () => {
+    const stages = await listStages();
+    const existing = findStage(stages, name);
+    if (!existing) return;
+
+    const updated = { ...existing, ...changes };
+    if (updated.name !== name) {
+      updated.name = validateName(stages.filter(stage => stage !== existing), updated.name);
+      await renameStatus(name, updated.name);
+    }
+    await saveStages(stages.map(stage => stage === existing ? updated : stage));
+
+    if (updated.coolOffTrigger !== existing.coolOffTrigger) {
+      const ids = await db.applications.where('status').equals(updated.name).primaryKeys();
+      for (const id of ids) await recalculateCoolOff(id);
+    }
+  });
+}
+
+// Swaps the stage with its neighbour in the given direction. The first stage
+// stays put: applied events are recorded under its name and found by it.
+export async function moveStage(name: string, direction: 1 | -1) {
+  await db.transaction('rw', db.settings, async () => {
+    const stages = await listStages();
+    const index = stages.findIndex(stage => stage.name === name);
+    const target = index + direction;
+    if (index < 1 || target < 1 || target >= stages.length) return;
+
+    const reordered = [...stages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    await saveStages(reordered);
+  });
+}
+
+// Only stages no application is in can go, and never the first one, which
+// every application's history starts in. Past status events keep the name.
+export async function deleteStage(name: string) {
+  await db.transaction('rw', [db.settings, db.applications], async () => {
+    const stages = await listStages();
+    if (!findStage(stages, name)) return;
+    if (initialStage(stages) === name) throw new Error("New applications start in the first stage, so it can't be removed");
+
+    const applications = await db.applications.where('status').equals(name).count();
+    if (applications > 0) {
+      throw new Error(`${name} still has ${applications} applications`);
+    }
+    await saveStages(stages.filter(stage => stage.name !== name));
+  });
+}
+
+// Stages from a backup that this device doesn't have are added at the end;
+// ones it has keep their local settings
+export async function mergeStages(incoming: PipelineStage[]) {
+  const stages = await listStages();
+  const missing = incoming.filter((stage, i) =>
+    !findStage(stages, stage.name) && incoming.findIndex(other => other.name === stage.name) === i);
+  if (missing.length > 0) await saveStages([...stages, ...missing]);
+}
+
+// Imported and restored records may use stages this device doesn't have;
+// they are added as open stages so nothing points nowhere
+export async function ensureStages(names: string[]) {
+  await mergeStages(names.map(name => ({ name, kind: "open", coolOffTrigger: false })));
+}
+
+// Replaces the whole pipeline, as restoring a backup does
+export async function saveStages(stages: PipelineStage[]) {
+  await saveSetting(SETTINGS_KEY, { stages });
+}
+
+async function renameStatus(from: string, to: string) {
+  await db.applications.where('status').equals(from).modify({ status: to });
+  await db.statusEvents.filter(event => event.status === from).modify({ status: to });
+  await db.trash.toCollection().modify(entry => {
+    if (entry.application.status === from) entry.application.status = to;
+    for (const event of entry.statusEvents) {
+      if (event.status === from) event.status = to;
+    }
+  });
+}
+
+function validateName(stages: PipelineStage[], name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("A stage needs a name");
+
+  const clash = stages.find(stage => stage.name.toLowerCase() === trimmed.toLowerCase());
+  if (clash) throw new Error(`${clash.name} already exists`);
+  return trimmed;
+}
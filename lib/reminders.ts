@@ -0,0 +1,150 @@
+import { db } from '@/lib/db';
+import { addDays, nowLocalDateTime, toLocalDateTime, today } from '@/lib/dates';
+import { DEFAULT_FOLLOW_UP_DAYS } from '@/lib/ical';
+import { ROUND_TYPE_LABELS } from '@/lib/interviews';
+import { findCompany } from '@/lib/companies';
+import { getSetting, saveSetting } from '@/lib/settings';
+import { listStages, stagesOfKind } from '@/lib/pipeline';
+import { notificationPermission, showNotification } from '@/lib/notifications';
+
+export type ReminderType = "cool-off" | "follow-up" | "interview";
+
+export interface ReminderSettings {
+  enabled: boolean;
+  // The day reminders were switched on; cool-offs that ended before it stay quiet
+  enabledOn: string;
+  coolOffEnded: boolean;
+  followUp: boolean;
+  followUpDays: number;
+  interviews: boolean;
+  interviewLeadHours: number;
+}
+
+export interface Reminder {
+  // Stable per occurrence, so a reminder is shown once
+  id: string;
+  type: ReminderType;
+  title: string;
+  body: string;
+  url: string;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  enabledOn: "",
+  coolOffEnded: true,
+  followUp: true,
+  followUpDays: DEFAULT_FOLLOW_UP_DAYS,
+  interviews: true,
+  interviewLeadHours: 24,
+};
+
+// How often open tabs look for due reminders
+export const REMINDER_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Title for several reminders of one type collapsed into one notification
+const GROUP_TITLES: Record<ReminderType, (count: number) => string> = {
+  "cool-off": count => `You can reapply to ${count} companies`,
+  "follow-up": count => `${count} applications are due a follow-up`,
+  "interview": count => `${count} interviews coming up`,
+};
+
+const SETTINGS_KEY = "reminders";
+
+export async function getReminderSettings() {
+  return getSetting(SETTINGS_KEY, DEFAULT_REMINDER_SETTINGS);
+}
+
+export async function saveReminderSettings(settings: ReminderSettings) {
+  return saveSetting(SETTINGS_KEY, settings);
+}
+
+// Everything the settings ask to be reminded of right now, shown or not
+export async function findDueReminders(settings: ReminderSettings): Promise<Reminder[]> {
+  const reminders: Reminder[] = [];
+
+  if (settings.coolOffEnded) {
+    const ended = await db.applications
+      .where('coolOffEnds').between(settings.enabledOn || today(), today(), true, true)
+      .toArray();
+    for (const app of ended) {
+      const company = await findCompany(app.company);
+      reminders.push({
+        id: `cool-off-${app.id}-${app.coolOffEnds}`,
+        type: "cool-off",
+        title: `You can reapply to ${app.company}`,
+        body: `The cool-off for ${app.jobTitle} (${app.location}) has ended.`,
+        url: company ? `/companies/${company.id}` : "/",
+      });
+    }
+  }
+
+  if (settings.followUp) {
+    const openApps = await db.applications.where('status').anyOf(stagesOfKind(await listStages(), "open")).toArray();
+    for (const app of openApps) {
+      if (addDays(app.updatedAt.split("T")[0], settings.followUpDays) > today()) continue;
+
+      reminders.push({
+        // Keyed on the last update, so the next quiet stretch reminds again
+        id: `follow-up-${app.id}-${app.updatedAt}`,
+        type: "follow-up",
+        title: `Follow up with ${app.company}`,
+        body: `No update on ${app.jobTitle} for ${settings.followUpDays} days.`,
+        url: `/?q=${encodeURIComponent(app.company)}`,
+      });
+    }
+  }
+
+  if (settings.interviews) {
+    const until = toLocalDateTime(new Date(Date.now() + settings.interviewLeadHours * 60 * 60 * 1000));
+    const rounds = await db.interviews
+      .where('scheduledAt').between(nowLocalDateTime(), until, true, true)
+      .filter(round => round.outcome === "pending")
+      .toArray();
+    const apps = await db.applications.bulkGet(rounds.map(round => round.applicationId));
+
+    rounds.forEach((round, i) => {
+      const app = apps[i];
+      if (!app) return;
+
+      reminders.push({
+        id: `interview-${round.id}-${round.scheduledAt}`,
+        type: "interview",
+        title: `${ROUND_TYPE_LABELS[round.roundType]} with ${app.company}`,
+        body: `${new Date(round.scheduledAt).toLocaleString()} · ${app.jobTitle}`,
+        url: `/?q=${encodeURIComponent(app.company)}`,
+      });
+    });
+  }
+
+  return reminders;
+}
+
+// Shows the due reminders that haven't been shown yet. Several of one type
+// collapse into a single notification so a long backlog doesn't flood.
+export async function checkReminders() {
+  const settings = await getReminderSettings();
+  if (!settings.enabled || notificationPermission() !== "granted") return;
+
+  const due = await findDueReminders(settings);
+  const sent = new Set(await db.sentReminders.where('id').anyOf(due.map(reminder => reminder.id)).primaryKeys());
+  const fresh = due.filter(reminder => !sent.has(reminder.id));
+  if (fresh.length === 0) return;
+
+  // Recorded first, so another tab checking at the same moment skips them
+  const sentAt = new Date().toISOString();
+  await db.sentReminders.bulkPut(fresh.map(reminder => ({ id: reminder.id, sentAt })));
+
+  for (const type of Object.keys(GROUP_TITLES) as ReminderType[]) {
+    const group = fresh.filter(reminder => reminder.type === type);
+    if (group.length === 1) {
+      await showNotification(group[0].title, { body: group[0].body, tag: group[0].id, url: group[0].url });
+    } else if (group.length > 1) {
+      await showNotification(GROUP_TITLES[type](group.length), {
+        body: group.map(reminder => reminder.title).join("\n"),
+        tag: type,
+        url: type === "cool-off" ? "/companies" : "/",
+      });
+    }
+  }
+}
@@ -0,0 +1,3 @@
+// Radix Select items cannot have an empty value, so "nothing chosen" options
+// use this one; it is unlikely to clash with a user-defined value
+export const SELECT_NONE = "__none__";
@@ -0,0 +1,15 @@
+// The worker only caches in production builds; in development it would
+// serve stale chunks over hot reloads. A new build changes the URL, which
+// installs a new worker with its own cache.
+export const SERVICE_WORKER_URL = `/sw.js?cache=${process.env.NODE_ENV === "production"}&build=${process.env.BUILD_ID}`;
+
+export async function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return undefined;
+  return navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+// Chrome's install prompt, which isn't in the DOM typings
+export interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: "accepted" | "dismissed" }>;
+}
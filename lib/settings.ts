@@ -0,0 +1,12 @@
+import { db } from '@/lib/db';
+
+// Stored values are merged over the defaults, so settings added later
+// pick up their default on devices that saved before they existed
+export async function getSetting<T extends object>(key: string, defaults: T): Promise<T> {
+  const record = await db.settings.get(key);
+  return { ...defaults, ...(record?.value as Partial<T> | undefined) };
+}
+
+export async function saveSetting<T extends object>(key: string, value: T) {
+  return db.settings.put({ key, value });
+}
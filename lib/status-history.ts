@@ -0,0 +1,32 @@
+import { db, type ApplicationStatus } from '@/lib/db';
+import { today } from '@/lib/dates';
+
+// Oldest first; events on the same day keep the order they were recorded in
+export async function listStatusEvents(applicationId: number) {
+  const events = await db.statusEvents.where('applicationId').equals(applicationId).toArray();
+  return events.sort((a, b) => a.date.localeCompare(b.date) || a.id! - b.id!);
+}
+
+// Most recent transition into the given status, if there was one
+export async function findLatestStatusEvent(applicationId: number, status: ApplicationStatus) {
+  const events = await listStatusEvents(applicationId);
+  return events.filter(event => event.status === status).pop();
+}
+
+export async function recordStatusEvent(applicationId: number, status: ApplicationStatus, date = today()) {
+  return db.statusEvents.add({
+    applicationId,
+    status,
+    date,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+// Back-date (or correct) when a transition happened
+export async function updateStatusEventDate(id: number, date: string) {
+  return db.statusEvents.update(id, { date });
+}
+
+export async function deleteStatusEvents(applicationId: number) {
+  return db.statusEvents.where('applicationId').equals(applicationId).delete();
+}
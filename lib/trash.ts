@@ -0,0 +1,136 @@
+import { db, withoutId } from '@/lib/db';
+import { DAY_MS } from '@/lib/dates';
+import { deleteStatusEvents } from '@/lib/status-history';
+import { deleteInterviews } from '@/lib/interviews';
+import { unlinkApplication } from '@/lib/contacts';
+import { deleteAttachments } from '@/lib/attachments';
+import { ensureCompany } from '@/lib/companies';
+import { ensureStages } from '@/lib/pipeline';
+import { recalculateCompanyCoolOffs } from '@/lib/cool-off-policies';
+import { getSetting, saveSetting } from '@/lib/settings';
+
+export interface TrashSettings {
+  retentionDays: number;
+}
+
+export const DEFAULT_TRASH_SETTINGS: TrashSettings = {
+  retentionDays: 30,
+};
+
+const SETTINGS_KEY = "trash";
+
+export async function getTrashSettings() {
+  return getSetting(SETTINGS_KEY, DEFAULT_TRASH_SETTINGS);
+}
+
+export async function saveTrashSettings(settings: TrashSettings) {
+  return saveSetting(SETTINGS_KEY, settings);
+}
+
+// Most recently deleted first
+export async function listTrash() {
+  return db.trash.orderBy('deletedAt').reverse().toArray();
+}
+
+// When an entry deleted at the given time is purged
+export function purgeDate(deletedAt: string, { retentionDays }: TrashSettings) {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS);
+}
+
+const trashTables = () => [db.applications, db.statusEvents, db.interviews, db.contacts, db.attachments, db.companies, db.coolOffPolicies, db.trash, db.settings];
+
+// Moves the application, with its history, rounds, attachments and contact
+// links, into the trash. Later attempts are relinked past it so the chain
+// stays whole. Returns the trash entry's id.
+export async function trashApplication(id: number) {
+  return db.transaction('rw', trashTables(), async () => {
+    const application = await db.applications.get(id);
+    if (!application) return undefined;
+
+    const nextAttempts = await db.applications.where('previousAttemptId').equals(id).toArray();
+    const contacts = await db.contacts.where('applicationIds').equals(id).toArray();
+    const trashId = await db.trash.add({
+      deletedAt: new Date().toISOString(),
+      application,
+      statusEvents: await db.statusEvents.where('applicationId').equals(id).toArray(),
+      interviews: await db.interviews.where('applicationId').equals(id).toArray(),
+      attachments: await db.attachments.where('applicationId').equals(id).toArray(),
+      contactIds: contacts.map(contact => contact.id!),
+      nextAttemptIds: nextAttempts.map(next => next.id!),
+    });
+
+    await db.applications.where('previousAttemptId').equals(id).modify({ previousAttemptId: application.previousAttemptId });
+    await deleteStatusEvents(id);
+    await deleteInterviews(id);
+    await unlinkApplication(id);
+    await deleteAttachments(id);
+    await db.applications.delete(id);
+    return trashId;
+  });
+}
+
+export async function trashApplications(ids: number[]) {
+  return db.transaction('rw', trashTables(), async () => {
+    const trashIds: number[] = [];
+    for (const id of ids) {
+      const trashId = await trashApplication(id);
+      if (trashId !== undefined) trashIds.push(trashId);
+    }
+    return trashIds;
+  });
+}
+
+// Puts everything back as it was, then recomputes the cool-off in case the
+// company's policy changed meanwhile. The application keeps its id unless a
+// restored backup has reused it in the meantime, and its stage comes back if
+// it was deleted from the pipeline.
+export async function restoreApplications(trashIds: number[]) {
+  await db.transaction('rw', trashTables(), async () => {
+    const companies = new Set<string>();
+    for (const trashId of trashIds) {
+      const entry = await db.trash.get(trashId);
+      if (!entry) continue;
+
+      const { application } = entry;
+      const taken = await db.applications.get(application.id!);
+      const id = await db.applications.add(taken ? withoutId(application) : application);
+
+      await ensureCompany(application.company);
+      await ensureStages([application.status]);
+      await db.statusEvents.bulkAdd(entry.statusEvents.map(event => ({ ...withoutId(event), applicationId: id })));
+      await db.interviews.bulkAdd(entry.interviews.map(round => ({ ...withoutId(round), applicationId: id })));
+      await db.attachments.bulkAdd(entry.attachments.map(attachment => ({ ...withoutId(attachment), applicationId: id })));
+      await db.contacts.where('id').anyOf(entry.contactIds).modify(contact => {
+        if (!contact.applicationIds.includes(id)) contact.applicationIds.push(id);
+      });
+
+      // Only relink attempts that haven't been moved onto another chain since
+      for (const nextId of entry.nextAttemptIds) {
+        const next = await db.applications.get(nextId);
+        if (next && next.previousAttemptId === application.previousAttemptId) {
+          await db.applications.update(nextId, { previousAttemptId: id });
+        }
+      }
+
+      await db.trash.delete(trashId);
+      companies.add(application.company.toLowerCase());
+    }
+
+    for (const company of companies) await recalculateCompanyCoolOffs(company);
+  });
+}
+
+export async function purgeTrash(trashIds: number[]) {
+  return db.trash.bulkDelete(trashIds);
+}
+
+export async function emptyTrash() {
+  return db.trash.clear();
+}
+
+// Run once per page load
+export async function purgeExpiredTrash() {
+  const { retentionDays } = await getTrashSettings();
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+  return db.trash.where('deletedAt').below(cutoff).delete();
+}
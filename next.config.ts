@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
+// Names the deploy, so the service worker keeps each build's cache apart and
+// drops the ones before it
+const BUILD_ID = process.env.BUILD_ID ?? Date.now().toString(36);
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  generateBuildId: async () => BUILD_ID,
+  env: { BUILD_ID },
 };
 
 export default nextConfig;
@@ -0,0 +1,153 @@
+// Service worker: keeps the app shell cached so the tracker opens offline,
+// shows reminder notifications and opens the app when one is clicked. The
+// reminder logic lives in the page (lib/reminders.ts), so reminders are only
+// checked while a tab is open.
+
+// Registered with ?cache=false in development, where caching would get in
+// the way of hot reloads
+const CACHE_ENABLED = new URL(self.location.href).searchParams.get("cache") === "true";
+
+// One cache per build; activating drops the caches of older builds, so
+// their chunks don't pile up
+const CACHE_NAME = `zhiwei-zzq-${new URL(self.location.href).searchParams.get("build") ?? "dev"}`;
+
+// Every page, fetched on install together with the scripts, styles and
+// fonts they reference
+const APP_ROUTES = [
+  "/",
+  "/board",
+  "/calendar",
+  "/companies",
+  "/analytics",
+  "/eligibility",
+  "/contacts",
+  "/policies",
+  "/import",
+  "/backup",
+  "/settings",
+  "/trash",
+  "/migrate",
+];
+
+const STATIC_FILES = [
+  "/manifest.webmanifest",
+  "/icon.png",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+
+// Build output paths in HTML, flight data and CSS
+const ASSET_PATTERN = /\/_next\/static\/[^"'()\s\\]+/g;
+
+self.addEventListener("install", event => {
+  event.waitUntil((CACHE_ENABLED ? precache() : Promise.resolve()).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME || !CACHE_ENABLED).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (!CACHE_ENABLED || request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, url));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    // Build output is content-hashed, so a cached copy never goes stale
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+async function precache() {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(STATIC_FILES);
+
+  const assets = new Set();
+  for (const route of APP_ROUTES) {
+    const response = await fetch(route);
+    if (!response.ok) continue;
+    await cache.put(route, response.clone());
+    for (const asset of (await response.text()).match(ASSET_PATTERN) ?? []) assets.add(asset);
+  }
+
+  // Stylesheets point at the font files
+  for (const asset of [...assets].filter(asset => asset.endsWith(".css"))) {
+    const response = await fetch(asset);
+    if (!response.ok) continue;
+    for (const font of (await response.clone().text()).match(ASSET_PATTERN) ?? []) assets.add(font);
+    await cache.put(asset, response);
+    assets.delete(asset);
+  }
+
+  await cache.addAll([...assets]);
+}
+
+// Pages are stored without their query string: filters live in the URL
+// but every variant is the same page. A company page that was never opened
+// online falls back to the company list.
+async function networkFirst(request, url) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(url.pathname, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(url.pathname)
+      ?? (url.pathname.startsWith("/companies/") ? await cache.match("/companies") : undefined)
+      ?? await cache.match("/");
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+// The refresh is passed to waitUntil so the worker isn't stopped before the
+// cache is updated, even when the cached copy was answered with straight away
+async function staleWhileRevalidate(event) {
+  const { request } = event;
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(async response => {
+      if (response.ok) await cache.put(request, response.clone());
+      return response;
+    })
+    .catch(error => {
+      if (!cached) throw error;
+      return cached;
+    });
+  event.waitUntil(refresh.catch(() => undefined));
+  return cached ?? refresh;
+}
+
+self.addEventListener("notificationclick", event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then(clients => {
+      const client = clients.find(c => new URL(c.url).origin === self.location.origin);
+      if (client) {
+        return client.navigate(url).then(navigated => (navigated ?? client).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});